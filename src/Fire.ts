@@ -1,37 +1,41 @@
 import {
-  BoxGeometry,
   ShaderMaterial,
   type Texture,
+  type DepthTexture,
+  type Camera,
+  type Scene,
+  type WebGLRenderer,
   Color,
+  Vector2,
   Vector3,
   Vector4,
   Matrix4,
   LinearFilter,
   ClampToEdgeWrapping,
+  PerspectiveCamera,
+  OrthographicCamera,
 } from 'three'
 import { FireShader, type FireShaderUniforms } from './FireShader'
-import { AbstractFire } from './internal/AbstractFire'
+import {
+  AbstractFire,
+  randomSeed,
+  resolveFireOptions,
+  type FireOptions,
+} from './internal/AbstractFire'
+import { simplexNoise } from './internal/noise'
+import { acquireUnitBox } from './internal/sharedResources'
 
 /**
  * Properties for creating a Fire instance
  */
-export interface FireProps {
+export interface FireProps extends FireOptions {
   /** Fire texture (grayscale mask defining fire shape) */
   fireTex: Texture
-  /** Fire color tint (default: 0xeeeeee) */
-  color?: Color | string | number
-  /** Ray marching iterations - higher = better quality, lower performance (default: 20) */
-  iterations?: number
-  /** Noise octaves for turbulence (default: 3) */
-  octaves?: number
-  /** Noise scaling parameters [x, y, z, time] (default: [1, 2, 1, 0.3]) */
-  noiseScale?: [number, number, number, number]
-  /** Fire shape intensity (default: 1.3) */
-  magnitude?: number
-  /** Noise lacunarity - frequency multiplier (default: 2.0) */
-  lacunarity?: number
-  /** Noise gain - amplitude multiplier (default: 0.5) */
-  gain?: number
+  /**
+   * Scene depth texture. When set, rays stop at opaque geometry and the fire
+   * softly fades where it meets it (default: none — fire draws over everything)
+   */
+  depthTexture?: DepthTexture | null
 }
 
 /**
@@ -64,34 +68,49 @@ export class Fire extends AbstractFire<ShaderMaterial & { uniforms: FireShaderUn
    *
    * @param props - Configuration options for the fire effect
    */
-  constructor({
-    fireTex,
-    color = 0xeeeeee,
-    iterations = 20,
-    octaves = 3,
-    noiseScale = [1, 2, 1, 0.3],
-    magnitude = 1.3,
-    lacunarity = 2.0,
-    gain = 0.5,
-  }: FireProps) {
-    const geometry = new BoxGeometry(1, 1, 1)
-
+  constructor(props: FireProps) {
+    const { fireTex, depthTexture = null } = props
+    const options = resolveFireOptions(props)
+    const seed = props.seed ?? randomSeed()
+    // The variant is built in; every other option is set by applyOptions()
+    const { iterations, octaves, blackbody, densityCutoff, jitter } = options
+    // Each fire owns a light material, as its side, visibility and uniforms are
+    // its own. The program is what is shared: three.js keys programs by shader
+    // source and defines, so fires of one variant compile once, and counts the
+    // materials using each, freeing it when the last of them is disposed.
     const material = new ShaderMaterial({
       defines: {
         ITERATIONS: iterations.toString(),
         OCTAVES: octaves.toString(),
+        ...(depthTexture ? { USE_DEPTH_TEXTURE: '' } : {}),
+        ...(blackbody ? { USE_BLACKBODY: '' } : {}),
+        ...(densityCutoff !== null ? { FIRE_EARLY_EXIT: '' } : {}),
+        ...(jitter ? { FIRE_JITTER: '' } : {}),
       },
       uniforms: {
         fireTex: { value: fireTex },
-        color: { value: color instanceof Color ? color : new Color(color) },
+        color: { value: new Color() },
         time: { value: 0.0 },
-        seed: { value: Math.random() * 19.19 },
+        seed: { value: 0 },
         invModelMatrix: { value: new Matrix4() },
         scale: { value: new Vector3(1, 1, 1) },
-        noiseScale: { value: new Vector4(...noiseScale) },
-        magnitude: { value: magnitude },
-        lacunarity: { value: lacunarity },
-        gain: { value: gain },
+        noiseScale: { value: new Vector4() },
+        magnitude: { value: 0 },
+        lacunarity: { value: 0 },
+        gain: { value: 0 },
+        depthTex: { value: depthTexture },
+        cameraNear: { value: 0.1 },
+        cameraFar: { value: 2000 },
+        resolution: { value: new Vector2(1, 1) },
+        depthSoftness: { value: 0 },
+        colorRamp: { value: null },
+        minTemperature: { value: 0 },
+        maxTemperature: { value: 0 },
+        wind: { value: new Vector3() },
+        windDrift: { value: new Vector3() },
+        lean: { value: new Vector3() },
+        densityCutoff: { value: 1.0 },
+        jitterFrame: { value: 0 },
       },
       vertexShader: FireShader.vertexShader,
       fragmentShader: FireShader.fragmentShader,
@@ -100,14 +119,82 @@ export class Fire extends AbstractFire<ShaderMaterial & { uniforms: FireShaderUn
       depthTest: false,
     }) as ShaderMaterial & { uniforms: FireShaderUniforms }
 
-    super(geometry, material)
+    super(acquireUnitBox(), material, {
+      iterations,
+      octaves,
+      blackbody,
+      earlyExit: densityCutoff !== null,
+      jitter,
+    })
 
     // Configure texture
     fireTex.magFilter = fireTex.minFilter = LinearFilter
     fireTex.wrapS = fireTex.wrapT = ClampToEdgeWrapping
+
+    this.applyOptions({ ...options, seed })
   }
 
+  protected readonly noise = simplexNoise
+
   protected getUniforms(): FireShaderUniforms {
     return this.material.uniforms
   }
+
+  protected getFireTexture(): Texture {
+    return this.material.uniforms.fireTex.value as Texture
+  }
+
+  protected applyVariant(): void {
+    this.material.defines.ITERATIONS = this.variant.iterations.toString()
+    this.material.defines.OCTAVES = this.variant.octaves.toString()
+    if (this.variant.blackbody) {
+      this.material.defines.USE_BLACKBODY = ''
+    } else {
+      delete this.material.defines.USE_BLACKBODY
+    }
+    if (this.variant.earlyExit) {
+      this.material.defines.FIRE_EARLY_EXIT = ''
+    } else {
+      delete this.material.defines.FIRE_EARLY_EXIT
+    }
+    if (this.variant.jitter) {
+      this.material.defines.FIRE_JITTER = ''
+    } else {
+      delete this.material.defines.FIRE_JITTER
+    }
+    this.material.needsUpdate = true
+  }
+
+  protected applyColorRamp(texture: Texture | null): void {
+    const uniforms = this.material.uniforms
+    if (!texture !== !uniforms.colorRamp.value) {
+      if (texture) {
+        this.material.defines.USE_COLOR_RAMP = ''
+      } else {
+        delete this.material.defines.USE_COLOR_RAMP
+      }
+      this.material.needsUpdate = true
+    }
+    uniforms.colorRamp.value = texture
+  }
+
+  /**
+   * Captures the per-render camera and target state the depth-aware mode needs
+   * to reconstruct scene depth. Called by three.js right before drawing.
+   */
+  public onBeforeRender(renderer: WebGLRenderer, scene: Scene, camera: Camera): void {
+    super.onBeforeRender(renderer, scene, camera)
+
+    const uniforms = this.material.uniforms
+    const target = renderer.getRenderTarget()
+    if (target) {
+      uniforms.resolution.value.set(target.width, target.height)
+    } else {
+      renderer.getDrawingBufferSize(uniforms.resolution.value)
+    }
+    if (camera instanceof PerspectiveCamera || camera instanceof OrthographicCamera) {
+      uniforms.cameraNear.value = camera.near
+      uniforms.cameraFar.value = camera.far
+    }
+  }
 }
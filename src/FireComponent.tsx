@@ -2,8 +2,10 @@ import type React from 'react'
 import { useRef, useMemo, forwardRef } from 'react'
 import { extend, useLoader } from '@react-three/fiber'
 import { Fire as FireMesh, type FireProps as FireMeshProps } from './Fire'
-import { Color, TextureLoader, type Texture } from 'three'
+import { TextureLoader, type DepthTexture, type Texture } from 'three'
 import { useFireBindings } from './internal/useFireBindings'
+import { useFireArgs, useFireOptions, useLiveFireProps } from './internal/useFireProps'
+import type { FireOptions } from './internal/AbstractFire'
 
 declare module '@react-three/fiber' {
   interface ThreeElements {
@@ -19,8 +21,6 @@ function ensureExtended() {
   }
 }
 
-const DEFAULT_NOISE_SCALE: [number, number, number, number] = [1, 2, 1, 0.3]
-
 /**
  * Props for the Fire React component
  */
@@ -51,8 +51,14 @@ export interface FireRef {
   update: (time?: number) => void
 }
 
+/** Props that can only be applied by constructing a new mesh. */
+type ConstructProps = {
+  depthTexture: DepthTexture | null
+}
+
 type LeafProps = {
-  meshProps: Omit<FireMeshProps, 'fireTex'>
+  constructProps: ConstructProps
+  options: FireOptions
   fireRef: React.Ref<FireMesh>
   forwarded: Record<string, unknown>
   children?: React.ReactNode
@@ -60,16 +66,14 @@ type LeafProps = {
 
 function FireFromUrl({
   url,
-  meshProps,
+  constructProps,
+  options,
   fireRef,
   forwarded,
   children,
 }: LeafProps & { url: string }) {
   const texture = useLoader(TextureLoader, url)
-  const args = useMemo<[FireMeshProps]>(
-    () => [{ ...meshProps, fireTex: texture }],
-    [meshProps, texture],
-  )
+  const args = useFireArgs(texture, constructProps, options)
   return (
     <fire ref={fireRef} args={args} {...forwarded}>
       {children}
@@ -82,15 +86,13 @@ function FireFromUrl({
  */
 function FireFromTexture({
   texture,
-  meshProps,
+  constructProps,
+  options,
   fireRef,
   forwarded,
   children,
 }: LeafProps & { texture: Texture }) {
-  const args = useMemo<[FireMeshProps]>(
-    () => [{ ...meshProps, fireTex: texture }],
-    [meshProps, texture],
-  )
+  const args = useFireArgs(texture, constructProps, options)
   return (
     <fire ref={fireRef} args={args} {...forwarded}>
       {children}
@@ -134,48 +136,35 @@ function FireFromTexture({
  * disposed — you own its lifecycle.
  */
 export const FireComponent = forwardRef<FireRef, FireProps>(
-  (
-    {
-      texture,
-      color = 0xeeeeee,
-      iterations = 20,
-      octaves = 3,
-      noiseScale = DEFAULT_NOISE_SCALE,
-      magnitude = 1.3,
-      lacunarity = 2.0,
-      gain = 0.5,
-      autoUpdate = true,
-      onUpdate,
-      children,
-      ...props
-    },
-    ref,
-  ) => {
+  ({ texture, depthTexture = null, autoUpdate = true, onUpdate, children, ...props }, ref) => {
     ensureExtended()
     const fireRef = useRef<FireMesh>(null)
+    // Changing the fire options updates the live mesh through its setters; only
+    // constructor-only props (and the texture) rebuild it
+    const [options, forwarded] = useFireOptions(props)
+    const constructProps = useMemo(() => ({ depthTexture }), [depthTexture])
 
-    // Memoize the constructor props (everything except the texture)
-    const meshProps = useMemo(
-      () => ({
-        color: color instanceof Color ? color : new Color(color),
-        iterations,
-        octaves,
-        noiseScale,
-        magnitude,
-        lacunarity,
-        gain,
-      }),
-      [color, iterations, octaves, noiseScale, magnitude, lacunarity, gain],
-    )
-
+    useLiveFireProps(fireRef, options)
     useFireBindings(ref, fireRef, autoUpdate, onUpdate)
 
     return typeof texture === 'string' ? (
-      <FireFromUrl url={texture} meshProps={meshProps} fireRef={fireRef} forwarded={props}>
+      <FireFromUrl
+        url={texture}
+        constructProps={constructProps}
+        options={options}
+        fireRef={fireRef}
+        forwarded={forwarded}
+      >
         {children}
       </FireFromUrl>
     ) : (
-      <FireFromTexture texture={texture} meshProps={meshProps} fireRef={fireRef} forwarded={props}>
+      <FireFromTexture
+        texture={texture}
+        constructProps={constructProps}
+        options={options}
+        fireRef={fireRef}
+        forwarded={forwarded}
+      >
         {children}
       </FireFromTexture>
     )
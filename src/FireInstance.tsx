@@ -0,0 +1,79 @@
+import type React from 'react'
+import { useContext, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { Color, type Group } from 'three'
+import { randomSeed } from './internal/AbstractFire'
+import { FireInstancesContext, type FireInstanceEntry } from './internal/useFireInstances'
+
+/**
+ * Props for the FireInstance React component
+ */
+export interface FireInstanceProps {
+  /** Position relative to the parent `<Fires>` */
+  position?: [number, number, number]
+  /** Rotation in radians */
+  rotation?: [number, number, number]
+  /** Scale factor (uniform or per-axis) */
+  scale?: [number, number, number] | number
+  /** Noise seed, added to the `<Fires>` seed (default: random) */
+  seed?: number
+  /** Color tint, multiplied with the `<Fires>` color (default: 0xffffff) */
+  color?: Color | string | number
+  /** Magnitude multiplier on top of the `<Fires>` magnitude (default: 1) */
+  magnitude?: number
+  /** Seconds added to the animation time, to desync the fires (default: 0) */
+  timeOffset?: number
+  /** Child components, placed relative to the instance */
+  children?: React.ReactNode
+}
+
+/**
+ * One fire of a `<Fires>` group, drawn in the group's single draw call
+ *
+ * Renders an empty group the instance follows, so it can be placed, nested and
+ * animated like any object; children (e.g. a light) move with it.
+ *
+ * @example
+ * ```tsx
+ * <Fires texture="/fire.png" limit={400}>
+ *   {braziers.map((position, i) => (
+ *     <FireInstance key={i} position={position} timeOffset={i * 0.37} />
+ *   ))}
+ * </Fires>
+ * ```
+ */
+export function FireInstance({
+  seed,
+  color = 0xffffff,
+  magnitude = 1,
+  timeOffset = 0,
+  children,
+  ...props
+}: FireInstanceProps) {
+  const registry = useContext(FireInstancesContext)
+  if (!registry) throw new Error('<FireInstance> must be placed inside <Fires>')
+
+  const groupRef = useRef<Group>(null)
+  const [randomInstanceSeed] = useState(randomSeed)
+  const entry = useMemo<FireInstanceEntry>(
+    () => ({ object: null, seed: 0, color: new Color(), magnitude: 1, timeOffset: 0 }),
+    [],
+  )
+
+  useLayoutEffect(() => {
+    entry.seed = seed ?? randomInstanceSeed
+    entry.color.set(color)
+    entry.magnitude = magnitude
+    entry.timeOffset = timeOffset
+  }, [entry, seed, randomInstanceSeed, color, magnitude, timeOffset])
+
+  useLayoutEffect(() => {
+    entry.object = groupRef.current
+    return registry.add(entry)
+  }, [registry, entry])
+
+  return (
+    <group ref={groupRef} {...props}>
+      {children}
+    </group>
+  )
+}
@@ -0,0 +1,92 @@
+import { PointLight, Vector3, type Material } from 'three'
+import { AbstractFire } from './internal/AbstractFire'
+
+/**
+ * Properties for creating a FireLight
+ */
+export interface FireLightProps {
+  /** Intensity with the flames at rest; flickering only ever dims it (default: 1) */
+  intensity?: number
+  /** Maximum range of the light, 0 for no limit (default: 0) */
+  distance?: number
+  /** Light falloff along the distance (default: 2) */
+  decay?: number
+  /** How strongly the light follows the flames, 0 = steady, 1 = fully (default: 0.6) */
+  flicker?: number
+}
+
+/** Heights along the flame axis (fire-local) at which the turbulence is sampled. */
+const SAMPLE_HEIGHTS = [-0.3, -0.1, 0.1]
+
+const _sample = new Vector3()
+
+/**
+ * Point light that flickers in step with a fire.
+ *
+ * Each {@link update} evaluates the fire's turbulence on the CPU — the same
+ * noise, seed, time and `magnitude` the shader uses — and dims and reddens the
+ * light wherever the flames are lifted and thinned out. The light is tinted by
+ * the fire's `fireColor` and sits in the lower part of the volume, where the
+ * flames are densest.
+ *
+ * @example
+ * ```ts
+ * const fire = new FireMesh({ fireTex: texture })
+ * const light = new FireLight(fire, { intensity: 4, distance: 10 })
+ *
+ * // In animation loop, after fire.update(time)
+ * light.update()
+ * ```
+ */
+export class FireLight extends PointLight {
+  /** Fire to follow; the parent fire is used when null. */
+  public fire: AbstractFire<Material> | null
+  /** Intensity with the flames at rest. Set this instead of `intensity`. */
+  public baseIntensity: number
+  /** How strongly the light follows the flames, 0 = steady, 1 = fully. */
+  public flicker: number
+
+  /**
+   * Creates a new FireLight
+   *
+   * @param fire - Fire to follow; the light is added to it as a child. Leave
+   *   null to follow whichever fire the light is later added to.
+   * @param props - Light options
+   */
+  constructor(
+    fire: AbstractFire<Material> | null = null,
+    { intensity = 1, distance = 0, decay = 2, flicker = 0.6 }: FireLightProps = {},
+  ) {
+    super(0xffffff, intensity, distance, decay)
+    this.fire = fire
+    this.baseIntensity = intensity
+    this.flicker = flicker
+    this.position.set(0, -0.25, 0)
+    fire?.add(this)
+  }
+
+  /**
+   * Follows the fire's current flames. Call it each frame after the fire's own
+   * `update()`.
+   */
+  public update(): void {
+    const fire = this.fire ?? (this.parent instanceof AbstractFire ? this.parent : null)
+    if (!fire) return
+
+    // How far the turbulence lifts the flame, weighted like the shader's
+    // `st.y += sqrt(st.y) * magnitude * turbulence`
+    let displacement = 0
+    for (const y of SAMPLE_HEIGHTS) {
+      displacement += Math.sqrt(y + 0.5) * fire.sampleTurbulence(_sample.set(0, y, 0))
+    }
+    displacement *= fire.magnitude / SAMPLE_HEIGHTS.length
+
+    // Lifted flames sample the thinner top of the fire texture: dim and redden
+    const strength = 1 / (1 + displacement)
+    const dim = 1 - this.flicker * (1 - strength)
+    this.intensity = this.baseIntensity * dim
+    this.color.copy(fire.fireColor)
+    this.color.g *= dim
+    this.color.b *= dim * dim
+  }
+}
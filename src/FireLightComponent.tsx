@@ -0,0 +1,75 @@
+import { useRef, useLayoutEffect, forwardRef, useImperativeHandle } from 'react'
+import { extend, useFrame } from '@react-three/fiber'
+import {
+  FireLight as FireLightObject,
+  type FireLightProps as FireLightObjectProps,
+} from './FireLight'
+
+declare module '@react-three/fiber' {
+  interface ThreeElements {
+    fireLight: Omit<ThreeElements['pointLight'], 'args'> & {
+      args?: ConstructorParameters<typeof FireLightObject>
+    }
+  }
+}
+
+let extended = false
+function ensureExtended() {
+  if (!extended) {
+    extend({ FireLight: FireLightObject })
+    extended = true
+  }
+}
+
+/**
+ * Props for the FireLight React component
+ */
+export interface FireLightProps extends FireLightObjectProps {
+  /** Follow the flames each frame from useFrame (default: true) */
+  autoUpdate?: boolean
+  /** Position relative to the parent fire (default: [0, -0.25, 0]) */
+  position?: [number, number, number]
+  /** Whether the light casts shadows (default: false) */
+  castShadow?: boolean
+}
+
+/**
+ * React Three Fiber component for a light that flickers with its fire
+ *
+ * Place it inside a `<Fire>`: it follows that fire's flames, for both the GLSL
+ * and the TSL fire.
+ *
+ * @example
+ * ```tsx
+ * <Fire texture="/fire.png" scale={[2, 3, 2]}>
+ *   <FireLight intensity={4} distance={10} />
+ * </Fire>
+ * ```
+ */
+export const FireLightComponent = forwardRef<FireLightObject | null, FireLightProps>(
+  ({ intensity = 1, distance = 0, decay = 2, flicker = 0.6, autoUpdate = true, ...props }, ref) => {
+    ensureExtended()
+    const lightRef = useRef<FireLightObject>(null)
+
+    useImperativeHandle(ref, () => lightRef.current as FireLightObject, [])
+
+    useLayoutEffect(() => {
+      const light = lightRef.current
+      if (!light) return
+      light.baseIntensity = intensity
+      light.distance = distance
+      light.decay = decay
+      light.flicker = flicker
+    }, [intensity, distance, decay, flicker])
+
+    // At the default priority, after the fire's own update (FIRE_UPDATE_PRIORITY)
+    // whatever the mount order, so the flicker doesn't lag a frame behind
+    useFrame(() => {
+      if (autoUpdate) lightRef.current?.update()
+    })
+
+    return <fireLight ref={lightRef} {...props} />
+  },
+)
+
+FireLightComponent.displayName = 'FireLight'
@@ -0,0 +1,195 @@
+import {
+  Mesh,
+  NormalBlending,
+  OrthographicCamera,
+  PerspectiveCamera,
+  PlaneGeometry,
+  ShaderMaterial,
+  Vector2,
+  WebGLRenderTarget,
+  type Camera,
+  type DepthTexture,
+  type Texture,
+  type WebGLRenderer,
+} from 'three'
+import { AbstractFirePass, type FireOffscreenPassOptions } from './internal/AbstractFirePass'
+
+/**
+ * Uniforms of the shader compositing the offscreen fires
+ */
+export interface FireCompositeUniforms {
+  /** The fires, drawn at reduced resolution with premultiplied alpha */
+  fireTex: { value: Texture | null }
+  /** Size in pixels of `fireTex` */
+  fireSize: { value: Vector2 }
+  /** Scene depth texture used when `USE_DEPTH_TEXTURE` is defined */
+  depthTex: { value: Texture | null }
+  /** Near plane of the scene camera */
+  cameraNear: { value: number }
+  /** Far plane of the scene camera */
+  cameraFar: { value: number }
+  /** Whether the scene camera is orthographic */
+  orthographic: { value: boolean }
+  /** Relative view-depth difference past which a pixel lies on a depth edge */
+  depthThreshold: { value: number }
+}
+
+/**
+ * Upsamples the offscreen fires over a full-screen quad. Defining
+ * `USE_DEPTH_TEXTURE` makes it depth-aware: where the scene depth under the
+ * four texels bilinear filtering would blend strays from the pixel's own by
+ * more than `depthThreshold`, it takes the texel whose depth is closest, so
+ * the flames stay on their side of the edge.
+ */
+const FireCompositeShader = {
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = vec4(position.xy, 0.0, 1.0);
+    }
+  `,
+
+  fragmentShader: /* glsl */ `
+    uniform sampler2D fireTex;
+    uniform vec2 fireSize;
+
+    varying vec2 vUv;
+
+    #ifdef USE_DEPTH_TEXTURE
+    #include <packing>
+
+    uniform sampler2D depthTex;
+    uniform float cameraNear;
+    uniform float cameraFar;
+    uniform bool orthographic;
+    uniform float depthThreshold;
+
+    float viewDepth(vec2 uv) {
+      float depth = texture2D(depthTex, uv).x;
+      float viewZ = orthographic
+        ? orthographicDepthToViewZ(depth, cameraNear, cameraFar)
+        : perspectiveDepthToViewZ(depth, cameraNear, cameraFar);
+      return -viewZ;
+    }
+    #endif
+
+    void main() {
+      vec4 fire = texture2D(fireTex, vUv);
+
+      #ifdef USE_DEPTH_TEXTURE
+      float depth = viewDepth(vUv);
+      // Centers of the four texels bilinear filtering blends
+      vec2 corner = floor(vUv * fireSize - 0.5) + 0.5;
+      vec2 nearestUv = vUv;
+      float nearestDiff = 1e20;
+      float maxDiff = 0.0;
+      for(int i = 0; i < 4; i++) {
+        vec2 tapUv = (corner + vec2(mod(float(i), 2.0), floor(float(i) / 2.0))) / fireSize;
+        float diff = abs(viewDepth(tapUv) - depth);
+        maxDiff = max(maxDiff, diff);
+        if(diff < nearestDiff) {
+          nearestDiff = diff;
+          nearestUv = tapUv;
+        }
+      }
+      if(maxDiff > depthThreshold * depth) {
+        fire = texture2D(fireTex, nearestUv);
+      }
+      #endif
+
+      gl_FragColor = fire;
+    }
+  `,
+} as const
+
+/**
+ * Draws the fires of a scene at reduced resolution (WebGL / GLSL)
+ *
+ * Fires are costly per pixel, and often cover much of the screen. The pass
+ * draws every visible fire into an offscreen target at `resolutionScale` of
+ * the output's size — a quarter of the pixels at the default 0.5 — and blends
+ * it back over the scene. Given the scene's `depthTexture`, the upsampling
+ * keeps the flames from bleeding over the edges of geometry in front of them.
+ *
+ * While drawing offscreen the fires are moved to layer 31, which the pass
+ * then draws alone; keep other objects off it.
+ *
+ * @example
+ * ```ts
+ * const firePass = new FireOffscreenPass({ resolutionScale: 0.5 })
+ *
+ * // In animation loop, in place of renderer.render(scene, camera)
+ * fire.update(time)
+ * firePass.render(renderer, scene, camera)
+ * ```
+ */
+export class FireOffscreenPass extends AbstractFirePass<WebGLRenderer, WebGLRenderTarget> {
+  private readonly material: ShaderMaterial & { uniforms: FireCompositeUniforms }
+  private readonly quad: Mesh<PlaneGeometry, ShaderMaterial>
+  private readonly quadCamera = new OrthographicCamera(-1, 1, 1, -1, 0, 1)
+
+  /**
+   * Creates a new FireOffscreenPass
+   *
+   * @param options - Pass options
+   */
+  constructor(options: FireOffscreenPassOptions = {}) {
+    const target = new WebGLRenderTarget(1, 1, { depthBuffer: false })
+    const material = new ShaderMaterial({
+      uniforms: {
+        fireTex: { value: target.texture },
+        fireSize: { value: new Vector2(1, 1) },
+        depthTex: { value: null },
+        cameraNear: { value: 0.1 },
+        cameraFar: { value: 2000 },
+        orthographic: { value: false },
+        depthThreshold: { value: 0.1 },
+      },
+      vertexShader: FireCompositeShader.vertexShader,
+      fragmentShader: FireCompositeShader.fragmentShader,
+      blending: NormalBlending,
+      premultipliedAlpha: true,
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+    }) as ShaderMaterial & { uniforms: FireCompositeUniforms }
+    const quad = new Mesh(new PlaneGeometry(2, 2), material)
+    quad.frustumCulled = false
+
+    super(target, options)
+    this.material = material
+    this.quad = quad
+    this.depthTexture = options.depthTexture ?? null
+  }
+
+  protected applyDepthTexture(texture: DepthTexture | null): void {
+    if (!texture !== !this.material.uniforms.depthTex.value) {
+      if (texture) {
+        this.material.defines.USE_DEPTH_TEXTURE = ''
+      } else {
+        delete this.material.defines.USE_DEPTH_TEXTURE
+      }
+      this.material.needsUpdate = true
+    }
+    this.material.uniforms.depthTex.value = texture
+  }
+
+  protected composite(renderer: WebGLRenderer, camera: Camera): void {
+    const uniforms = this.material.uniforms
+    uniforms.fireSize.value.set(this.target.width, this.target.height)
+    uniforms.depthThreshold.value = this.depthThreshold
+    if (camera instanceof PerspectiveCamera || camera instanceof OrthographicCamera) {
+      uniforms.cameraNear.value = camera.near
+      uniforms.cameraFar.value = camera.far
+    }
+    uniforms.orthographic.value = camera instanceof OrthographicCamera
+    renderer.render(this.quad, this.quadCamera)
+  }
+
+  protected disposeComposite(): void {
+    this.quad.geometry.dispose()
+    this.material.dispose()
+  }
+}
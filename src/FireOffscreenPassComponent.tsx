@@ -0,0 +1,26 @@
+import { FireOffscreenPass } from './FireOffscreenPass'
+import { useFireOffscreenPass, type FireOffscreenPassProps } from './internal/useFireOffscreenPass'
+
+export type { FireOffscreenPassProps }
+
+/**
+ * React Three Fiber component drawing the fires of the scene at reduced
+ * resolution
+ *
+ * It takes over rendering, like a post-processing composer: each frame it
+ * draws the scene without its fires, then the fires into a smaller offscreen
+ * target blended back over it. Pass the scene's `depthTexture` to keep the
+ * flames from bleeding over the edges of geometry in front of them.
+ *
+ * @example
+ * ```tsx
+ * <Canvas>
+ *   <FireOffscreenPass resolutionScale={0.5} />
+ *   <Fire texture="/fire.png" scale={[4, 6, 4]} />
+ * </Canvas>
+ * ```
+ */
+export function FireOffscreenPassComponent(props: FireOffscreenPassProps) {
+  useFireOffscreenPass(() => new FireOffscreenPass(), props)
+  return null
+}
@@ -0,0 +1,305 @@
+import {
+  BackSide,
+  Color,
+  FrontSide,
+  Group,
+  type Camera,
+  type Euler,
+  type Material,
+  type Object3D,
+  type Quaternion,
+  type Scene,
+  type Vector3,
+} from 'three'
+import {
+  randomSeed,
+  resolveFireOptions,
+  type AbstractFire,
+  type FireOptions,
+} from './internal/AbstractFire'
+
+/**
+ * Parameters a fire gets when it is spawned from a {@link FirePool}. Anything
+ * left out is reset to the value the fire had when the pool created it, so
+ * nothing carries over from a previous spawn.
+ *
+ * Only parameters that don't need a new shader can be set per spawn;
+ * `iterations`, `octaves`, `blackbody`, `colorRamp`, `densityCutoff`,
+ * `jitter`, the LOD and quality settings and `depthTexture` are fixed by the
+ * pool's factory. A spawned fire is never paused.
+ */
+export interface FireSpawnOptions extends Omit<FireOptions, FixedOption | 'paused'> {
+  /** Position relative to the pool */
+  position?: Vector3 | [number, number, number]
+  /** Rotation in radians */
+  rotation?: Euler | [number, number, number]
+  /** Scale factor (uniform or per-axis) */
+  scale?: Vector3 | [number, number, number] | number
+  /** Seconds of pool time until the fire goes back into the pool (default: until released) */
+  lifetime?: number
+}
+
+/**
+ * Options for creating a FirePool
+ */
+export interface FirePoolOptions {
+  /** Number of fires created up front (default: 16) */
+  size?: number
+  /**
+   * What `spawn()` does with every fire in use: reuse the oldest one
+   * (`'recycle'`) or spawn nothing (`'skip'`) (default: 'recycle')
+   */
+  overflow?: 'recycle' | 'skip'
+}
+
+/** A renderer that can compile ahead of time: `WebGLRenderer` or `WebGPURenderer`. */
+export interface FireCompiler {
+  compileAsync(object: Object3D, camera: Camera, targetScene?: Scene | null): Promise<unknown>
+}
+
+/** Options the pool's factory fixes for all of its fires. */
+const FIXED_OPTIONS = [
+  'colorRamp',
+  'blackbody',
+  'iterations',
+  'octaves',
+  'lod',
+  'lodHysteresis',
+  'qualityManager',
+  'densityCutoff',
+  'jitter',
+  'jitterAnimated',
+] as const satisfies readonly (keyof FireOptions)[]
+
+/** An option that can't be set per spawn. */
+type FixedOption = (typeof FIXED_OPTIONS)[number]
+
+/** The per-spawn parameters, as the fire had them when it was created. */
+type FireParams = Required<
+  Omit<FireSpawnOptions, 'position' | 'rotation' | 'scale' | 'lifetime' | 'seed'>
+>
+
+type PoolEntry<TFire> = {
+  fire: TFire
+  defaults: FireParams
+  position: Vector3
+  quaternion: Quaternion
+  scale: Vector3
+  /** Pool time since the fire was spawned */
+  age: number
+  lifetime: number
+}
+
+const captureDefaults = (fire: AbstractFire<Material>): FireParams => {
+  const options: FireOptions = fire.getOptions()
+  for (const key of FIXED_OPTIONS) delete options[key]
+  // Set afresh on every spawn
+  delete options.seed
+  delete options.paused
+  return options as FireParams
+}
+
+/**
+ * Pre-allocated fires for short-lived effects — impacts, fire arrows,
+ * explosions — handed out and taken back without constructing anything.
+ *
+ * The pool creates all of its fires up front with the factory, as hidden
+ * children of itself, so add the pool to the scene once. {@link spawn} shows an
+ * idle fire with a fresh seed, transform and parameters and restarts its
+ * animation; after its `lifetime` — or on {@link release} — it is hidden again.
+ * All fires come from the same factory, so they share one shader variant and
+ * spawning never compiles a shader; {@link compile} compiles it ahead of time.
+ *
+ * Works with either backend: pass a factory creating `FireMesh`es from
+ * `@wolffo/three-fire/vanilla` or `@wolffo/three-fire/tsl/vanilla`.
+ *
+ * @typeParam TFire - The fire class the factory creates
+ *
+ * @example
+ * ```ts
+ * const impacts = new FirePool(() => new FireMesh({ fireTex: texture, iterations: 12 }), {
+ *   size: 32,
+ * })
+ * scene.add(impacts)
+ * await impacts.compile(renderer, camera, scene)
+ *
+ * // On a hit
+ * impacts.spawn({ position: hit.point, scale: 0.5, lifetime: 0.8 })
+ *
+ * // In animation loop; updates the spawned fires too
+ * impacts.update(time)
+ * ```
+ */
+export class FirePool<TFire extends AbstractFire<Material> = AbstractFire<Material>> extends Group {
+  /** Every fire of the pool, spawned or idle. */
+  public readonly fires: readonly TFire[]
+  /** What `spawn()` does with every fire in use. */
+  public overflow: 'recycle' | 'skip'
+
+  private readonly entries = new Map<TFire, PoolEntry<TFire>>()
+  /** Spawned fires, oldest first. */
+  private readonly active: PoolEntry<TFire>[] = []
+  private readonly idle: PoolEntry<TFire>[] = []
+  /** Last clock value passed to `update()`. */
+  private _clock: number | undefined = undefined
+
+  /**
+   * Creates a new FirePool
+   *
+   * @param create - Creates one fire; called `size` times, right away
+   * @param options - Pool options
+   */
+  constructor(create: () => TFire, { size = 16, overflow = 'recycle' }: FirePoolOptions = {}) {
+    super()
+    this.overflow = overflow
+
+    const fires: TFire[] = []
+    for (let i = 0; i < size; i++) {
+      const fire = create()
+      const entry: PoolEntry<TFire> = {
+        fire,
+        defaults: captureDefaults(fire),
+        position: fire.position.clone(),
+        quaternion: fire.quaternion.clone(),
+        scale: fire.scale.clone(),
+        age: 0,
+        lifetime: Number.POSITIVE_INFINITY,
+      }
+      fire.visible = false
+      this.add(fire)
+      fires.push(fire)
+      this.entries.set(fire, entry)
+      this.idle.push(entry)
+    }
+    this.fires = fires
+  }
+
+  /** Number of fires currently spawned. */
+  public get activeCount(): number {
+    return this.active.length
+  }
+
+  /** Whether `fire` is currently spawned. */
+  public isActive(fire: TFire): boolean {
+    const entry = this.entries.get(fire)
+    return entry !== undefined && this.active.includes(entry)
+  }
+
+  /**
+   * Shows an idle fire with the given transform and parameters, everything
+   * else reset to the fire's initial values, and restarts its animation.
+   *
+   * @param options - Transform, lifetime and parameters of this spawn
+   * @returns The spawned fire, or null when all fires are in use and
+   *   {@link overflow} is `'skip'`
+   */
+  public spawn(options: FireSpawnOptions = {}): TFire | null {
+    let entry = this.idle.pop()
+    if (!entry) {
+      if (this.overflow === 'skip') return null
+      entry = this.active.shift()
+      if (!entry) return null
+    }
+
+    const { position, rotation, scale, lifetime, seed, ...params } = options
+    const { fire, defaults } = entry
+    const resolved = resolveFireOptions(params, defaults)
+    fire.applyOptions({
+      ...resolved,
+      // A copy, as the fire keeps the Color it is given
+      color: new Color(resolved.color),
+      seed: seed ?? randomSeed(),
+      paused: false,
+    })
+
+    if (Array.isArray(position)) fire.position.fromArray(position)
+    else fire.position.copy(position ?? entry.position)
+    if (Array.isArray(rotation)) fire.rotation.set(...rotation)
+    else if (rotation) fire.rotation.copy(rotation)
+    else fire.quaternion.copy(entry.quaternion)
+    if (typeof scale === 'number') fire.scale.setScalar(scale)
+    else if (Array.isArray(scale)) fire.scale.fromArray(scale)
+    else fire.scale.copy(scale ?? entry.scale)
+
+    fire.restart()
+    fire.visible = true
+    entry.age = 0
+    entry.lifetime = lifetime ?? Number.POSITIVE_INFINITY
+    this.active.push(entry)
+    return fire
+  }
+
+  /** Hides a spawned fire and puts it back into the pool. */
+  public release(fire: TFire): void {
+    const entry = this.entries.get(fire)
+    const index = entry ? this.active.indexOf(entry) : -1
+    if (!entry || index === -1) return
+    this.active.splice(index, 1)
+    fire.visible = false
+    this.idle.push(entry)
+  }
+
+  /**
+   * Ages the spawned fires by the clock delta since the previous call,
+   * releases those past their lifetime and updates the rest. Call it each
+   * frame instead of updating the pool's fires yourself.
+   *
+   * @param time - Current clock time in seconds
+   * @param camera - Camera the fires will be viewed from (optional)
+   */
+  public update(time: number, camera?: Camera): void {
+    const delta = this._clock === undefined ? 0 : time - this._clock
+    this._clock = time
+
+    for (let i = this.active.length - 1; i >= 0; i--) {
+      const entry = this.active[i]
+      entry.age += delta
+      if (entry.age >= entry.lifetime) {
+        this.release(entry.fire)
+      } else {
+        entry.fire.update(time, camera)
+      }
+    }
+  }
+
+  /**
+   * Compiles the fires' shader before the first spawn, for the front faces and
+   * for the back faces drawn while the camera is inside a fire. Call it while
+   * loading: the first fire is briefly made visible until the returned promise
+   * settles.
+   *
+   * @param renderer - Renderer the pool is drawn with
+   * @param camera - Camera the pool is viewed from
+   * @param scene - Scene the pool is in, for its lights and environment
+   */
+  public async compile(renderer: FireCompiler, camera: Camera, scene?: Scene): Promise<void> {
+    const fire = this.fires[0]
+    if (!fire) return
+
+    const { visible, frustumCulled } = fire
+    const side = fire.material.side
+    fire.visible = true
+    fire.frustumCulled = false
+    try {
+      for (const faces of [FrontSide, BackSide]) {
+        fire.material.side = faces
+        await renderer.compileAsync(fire, camera, scene ?? null)
+      }
+    } finally {
+      fire.visible = visible
+      fire.frustumCulled = frustumCulled
+      fire.material.side = side
+    }
+  }
+
+  /** Releases the GPU resources of every fire in the pool. */
+  public dispose(): void {
+    for (const fire of this.fires) {
+      this.remove(fire)
+      fire.dispose()
+    }
+    this.active.length = 0
+    this.idle.length = 0
+    this.entries.clear()
+  }
+}
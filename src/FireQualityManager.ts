@@ -0,0 +1,214 @@
+import { EventDispatcher, type Material } from 'three'
+import type { AbstractFire } from './internal/AbstractFire'
+
+/**
+ * A quality tier: how a {@link FireQualityManager} cuts down the shaders of
+ * its fires.
+ */
+export interface FireQualityTier {
+  /** Multiplier on every fire's iterations, rounded and at least 1 */
+  iterationScale: number
+  /** Most turbulence octaves any fire draws with */
+  maxOctaves: number
+}
+
+/**
+ * Properties for creating a FireQualityManager
+ */
+export interface FireQualityManagerProps {
+  /** Frame rate to hold (default: 60) */
+  targetFps?: number
+  /**
+   * How far, as a fraction of the frame budget, frames may run over before the
+   * quality drops (default: 0.2)
+   */
+  tolerance?: number
+  /** Seconds of slow frames before dropping a tier (default: 1) */
+  downgradeDelay?: number
+  /** Seconds of fast frames before raising a tier (default: 3) */
+  upgradeDelay?: number
+  /** Quality tiers, best first (default: four tiers down to a third of the iterations and 1 octave) */
+  tiers?: readonly FireQualityTier[]
+  /** Tier to start at (default: 0) */
+  tier?: number
+  /** Change tiers by the measured frame time (default: true) */
+  adaptive?: boolean
+}
+
+/** Event dispatched by a FireQualityManager when it changes tier. */
+export interface FireQualityChangeEvent {
+  /** The new tier's index */
+  tier: number
+  /** The previous tier's index */
+  previous: number
+}
+
+const DEFAULT_TIERS: readonly FireQualityTier[] = [
+  { iterationScale: 1, maxOctaves: Number.POSITIVE_INFINITY },
+  { iterationScale: 0.75, maxOctaves: 3 },
+  { iterationScale: 0.5, maxOctaves: 2 },
+  { iterationScale: 0.35, maxOctaves: 1 },
+]
+
+/** Longest gap between two updates counted as a frame; longer ones are pauses. */
+const MAX_FRAME_TIME = 0.5
+/** Weight of the newest frame in the averaged frame time. */
+const FRAME_SMOOTHING = 0.1
+
+/**
+ * Holds a frame rate by trading the quality of every fire in a scene.
+ *
+ * Call {@link update} once per frame: it averages the time between frames and,
+ * after {@link downgradeDelay} seconds over the budget, drops to the next
+ * lower tier, or after {@link upgradeDelay} seconds within it, climbs back
+ * up. A tier scales the iterations and caps the octaves of all fires following
+ * the manager — each keeps its own settings and {@link AbstractFire.lod}
+ * levels, which the tier is applied on top of. Every tier change dispatches a
+ * `change` event.
+ *
+ * Each tier compiles its own shaders the first time it is used.
+ *
+ * @example
+ * ```ts
+ * const quality = new FireQualityManager({ targetFps: 60 })
+ * quality.register(campfire)
+ * quality.register(torch)
+ * quality.addEventListener('change', ({ tier }) => console.log('fire quality', tier))
+ *
+ * // In animation loop
+ * quality.update(time)
+ * ```
+ */
+export class FireQualityManager extends EventDispatcher<{ change: FireQualityChangeEvent }> {
+  /** Frame rate to hold. */
+  public targetFps: number
+  /** How far, as a fraction of the frame budget, frames may run over. */
+  public tolerance: number
+  /** Seconds of slow frames before dropping a tier. */
+  public downgradeDelay: number
+  /** Seconds of fast frames before raising a tier. */
+  public upgradeDelay: number
+  /** Whether {@link update} changes tiers by the measured frame time. */
+  public adaptive: boolean
+  /** Quality tiers, best first. */
+  public readonly tiers: readonly FireQualityTier[]
+
+  private _tier: number
+  private readonly _fires = new Set<AbstractFire<Material>>()
+  /** Last clock value passed to `update()`. */
+  private _clock: number | undefined = undefined
+  private _frameTime = 0
+  /** Seconds the frames have been over (positive) or within (negative) budget. */
+  private _streak = 0
+
+  /**
+   * Creates a new FireQualityManager
+   *
+   * @param props - Manager options
+   */
+  constructor({
+    targetFps = 60,
+    tolerance = 0.2,
+    downgradeDelay = 1,
+    upgradeDelay = 3,
+    tiers = DEFAULT_TIERS,
+    tier = 0,
+    adaptive = true,
+  }: FireQualityManagerProps = {}) {
+    super()
+    this.targetFps = targetFps
+    this.tolerance = tolerance
+    this.downgradeDelay = downgradeDelay
+    this.upgradeDelay = upgradeDelay
+    this.adaptive = adaptive
+    this.tiers = tiers.map((level) => ({ ...level }))
+    this._tier = this.clampTier(tier)
+  }
+
+  /**
+   * Index of the tier the fires draw with, 0 being the best. Setting it
+   * switches tier right away; with {@link adaptive} on, `update()` keeps
+   * adjusting it.
+   */
+  public get tier(): number {
+    return this._tier
+  }
+
+  public set tier(value: number) {
+    const tier = this.clampTier(value)
+    if (tier === this._tier) return
+    const previous = this._tier
+    this._tier = tier
+    this._streak = 0
+    this.dispatchEvent({ type: 'change', tier, previous })
+  }
+
+  /** The tier the fires draw with. */
+  public get currentTier(): FireQualityTier {
+    return this.tiers[this._tier]
+  }
+
+  /** Averaged seconds between the recent frames, 0 before the second update. */
+  public get frameTime(): number {
+    return this._frameTime
+  }
+
+  /** The fires following the manager. */
+  public get fires(): ReadonlySet<AbstractFire<Material>> {
+    return this._fires
+  }
+
+  /**
+   * Measures the frame and changes tier once frames have been slow or fast
+   * for long enough.
+   *
+   * @param time - Current clock time in seconds
+   */
+  public update(time: number): void {
+    const delta = time - (this._clock ?? time)
+    this._clock = time
+    // Skip repeated calls within a frame and gaps such as a hidden tab
+    if (delta <= 0 || delta > MAX_FRAME_TIME) return
+
+    this._frameTime =
+      this._frameTime === 0 ? delta : this._frameTime + (delta - this._frameTime) * FRAME_SMOOTHING
+    if (!this.adaptive) return
+
+    const budget = (1 + this.tolerance) / this.targetFps
+    if (this._frameTime > budget) {
+      this._streak = Math.max(this._streak, 0) + delta
+      if (this._streak >= this.downgradeDelay) this.tier = this._tier + 1
+    } else {
+      this._streak = Math.min(this._streak, 0) - delta
+      if (-this._streak >= this.upgradeDelay) this.tier = this._tier - 1
+    }
+  }
+
+  /**
+   * Lets a fire follow this manager's tiers. A fire follows one manager at a
+   * time; this replaces its previous one.
+   *
+   * @param fire - Fire to scale
+   * @returns A function that unregisters the fire again
+   */
+  public register(fire: AbstractFire<Material>): () => void {
+    this._fires.add(fire)
+    fire.qualityManager = this
+    return () => this.unregister(fire)
+  }
+
+  /**
+   * Stops a fire from following this manager; it draws with its own settings
+   * again. Disposed fires are unregistered by themselves.
+   *
+   * @param fire - Fire to release
+   */
+  public unregister(fire: AbstractFire<Material>): void {
+    this._fires.delete(fire)
+    if (fire.qualityManager === this) fire.qualityManager = null
+  }
+
+  private clampTier(tier: number): number {
+    return Math.min(Math.max(Math.round(tier), 0), this.tiers.length - 1)
+  }
+}
@@ -0,0 +1,101 @@
+import type React from 'react'
+import { createContext, useContext, useLayoutEffect, useMemo, useSyncExternalStore } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { FireQualityManager, type FireQualityManagerProps } from './FireQualityManager'
+
+/** The quality manager the fires below a {@link FireQualityProvider} follow. */
+export const FireQualityContext = createContext<FireQualityManager | null>(null)
+
+/**
+ * Props for the FireQualityProvider React component
+ */
+export interface FireQualityProviderProps extends Omit<FireQualityManagerProps, 'tiers' | 'tier'> {
+  /**
+   * Existing manager to share, e.g. with vanilla code; the other props given
+   * then update it, and it keeps its own settings for those left out
+   */
+  manager?: FireQualityManager
+  /** Child components */
+  children?: React.ReactNode
+}
+
+/**
+ * Holds a frame rate by trading the quality of every `<Fire>` and `<Fires>`
+ * below it, GLSL or TSL.
+ *
+ * The provider measures each frame and drives a {@link FireQualityManager},
+ * which scales the iterations and caps the octaves of all fires below it. A
+ * fire opts out with `qualityManager={null}`.
+ *
+ * @example
+ * ```tsx
+ * <FireQualityProvider targetFps={60}>
+ *   <Fire texture="/fire.png" position={[0, 0, 0]} />
+ *   <Fire texture="/fire.png" position={[4, 0, 1]} />
+ * </FireQualityProvider>
+ * ```
+ */
+export function FireQualityProvider({
+  manager,
+  targetFps,
+  tolerance,
+  downgradeDelay,
+  upgradeDelay,
+  adaptive,
+  children,
+}: FireQualityProviderProps) {
+  const quality = useMemo(() => manager ?? new FireQualityManager(), [manager])
+
+  // Only the props given: a shared manager keeps its own settings for the rest
+  useLayoutEffect(() => {
+    if (targetFps !== undefined) quality.targetFps = targetFps
+    if (tolerance !== undefined) quality.tolerance = tolerance
+    if (downgradeDelay !== undefined) quality.downgradeDelay = downgradeDelay
+    if (upgradeDelay !== undefined) quality.upgradeDelay = upgradeDelay
+    if (adaptive !== undefined) quality.adaptive = adaptive
+  }, [quality, targetFps, tolerance, downgradeDelay, upgradeDelay, adaptive])
+
+  useFrame((state) => {
+    quality.update(state.clock.getElapsedTime())
+  })
+
+  return <FireQualityContext.Provider value={quality}>{children}</FireQualityContext.Provider>
+}
+
+/**
+ * The quality manager of the nearest {@link FireQualityProvider}, or null
+ * outside one.
+ */
+export function useFireQualityManager(): FireQualityManager | null {
+  return useContext(FireQualityContext)
+}
+
+/**
+ * The tier index — 0 being the best — of a quality manager, re-rendering the
+ * component whenever it changes. Reads the nearest {@link FireQualityProvider}
+ * unless given a manager; 0 without either.
+ *
+ * @param manager - Manager to read instead of the provider's
+ *
+ * @example
+ * ```tsx
+ * function Smoke() {
+ *   const tier = useFireQuality()
+ *   return tier < 2 ? <SmokeParticles /> : null
+ * }
+ * ```
+ */
+export function useFireQuality(manager?: FireQualityManager | null): number {
+  const contextManager = useContext(FireQualityContext)
+  const quality = manager === undefined ? contextManager : manager
+
+  const subscribe = useMemo(
+    () => (onChange: () => void) => {
+      quality?.addEventListener('change', onChange)
+      return () => quality?.removeEventListener('change', onChange)
+    },
+    [quality],
+  )
+  const tier = () => quality?.tier ?? 0
+  return useSyncExternalStore(subscribe, tier, tier)
+}
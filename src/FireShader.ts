@@ -1,4 +1,4 @@
-import { Vector3, Vector4, Color, Matrix4, type Texture } from 'three'
+import { Vector2, Vector3, Vector4, Color, Matrix4, type Texture } from 'three'
 
 /**
  * Uniforms interface for the fire shader
@@ -24,6 +24,32 @@ export interface FireShaderUniforms {
   lacunarity: { value: number }
   /** Noise gain (amplitude multiplier) */
   gain: { value: number }
+  /** Scene depth texture used when `USE_DEPTH_TEXTURE` is defined */
+  depthTex: { value: Texture | null }
+  /** Near plane of the camera being rendered */
+  cameraNear: { value: number }
+  /** Far plane of the camera being rendered */
+  cameraFar: { value: number }
+  /** Size in pixels of the render target being drawn to */
+  resolution: { value: Vector2 }
+  /** Distance over which density fades out in front of scene geometry */
+  depthSoftness: { value: number }
+  /** Gradient sampled by accumulated density when `USE_COLOR_RAMP` is defined */
+  colorRamp: { value: Texture | null }
+  /** Blackbody temperature in Kelvin of the thinnest flame (`USE_BLACKBODY`) */
+  minTemperature: { value: number }
+  /** Blackbody temperature in Kelvin of the densest flame (`USE_BLACKBODY`) */
+  maxTemperature: { value: number }
+  /** Wind in the fire's local space; leans the flame column */
+  wind: { value: Vector3 }
+  /** Local-space distance the wind has carried the noise so far */
+  windDrift: { value: Vector3 }
+  /** Local-space shift of the flame tip trailing the fire's motion */
+  lean: { value: Vector3 }
+  /** Accumulated density at which rays stop marching (`FIRE_EARLY_EXIT`) */
+  densityCutoff: { value: number }
+  /** Frame of the animated ray-start jitter (`FIRE_JITTER`), 0 for a fixed pattern */
+  jitterFrame: { value: number }
 }
 
 /**
@@ -32,6 +58,40 @@ export interface FireShaderUniforms {
  * Based on "Real-Time procedural volumetric fire" by Alfred et al.
  * Uses simplex noise for turbulence and ray marching for volume rendering.
  *
+ * Defining `USE_DEPTH_TEXTURE` enables soft intersection with the scene: rays
+ * stop at the opaque surface stored in `depthTex` and density fades out over
+ * `depthSoftness` world units in front of it.
+ *
+ * Defining `USE_COLOR_RAMP` replaces the `color` tint with the `colorRamp`
+ * gradient, looked up by the density accumulated along each ray. Defining
+ * `USE_BLACKBODY` instead colors it like a blackbody radiator whose temperature
+ * rises from `minTemperature` to `maxTemperature` with density. The ramp takes
+ * precedence when both are defined.
+ *
+ * `wind` (in the fire's local space) leans the flame column over, the more the
+ * higher up, and `windDrift` — the wind integrated over time — carries the
+ * noise sideways. `lean` shifts the tip further, e.g. to trail a moving fire.
+ * All are zero for a fire rising straight up.
+ *
+ * Defining `FIRE_INSTANCED` on an `InstancedMesh` makes every instance its own
+ * volume. The geometry then carries each instance's inverse world matrix as the
+ * `instanceInvModelMatrix0`–`3` columns, and its `[seed, magnitude,
+ * timeOffset]` as `instanceFireParams`: they add to `seed`, scale `magnitude`
+ * and add to `time`. `instanceColor` scales the `color` tint.
+ *
+ * Each view ray is clipped to the unit box and `ITERATIONS` samples are spread
+ * evenly between its entry and exit. Render the front faces while the camera is
+ * outside the box and the back faces (`side: BackSide`) while it is inside.
+ * Samples outside the flame's cylinder skip the turbulence. Defining
+ * `FIRE_EARLY_EXIT` also ends a ray once the density it has gathered reaches
+ * `densityCutoff`, leaving the samples behind an opaque core undrawn.
+ *
+ * Defining `FIRE_JITTER` offsets each pixel's samples along its ray by
+ * interleaved gradient noise, trading the slices a low `ITERATIONS` count shows
+ * for fine grain. `jitterFrame` shifts the pattern for temporal anti-aliasing.
+ * Perspective and orthographic cameras are told apart with three.js's built-in
+ * `isOrthographic` uniform, which is refreshed on every render.
+ *
  * @example
  * ```ts
  * const material = new ShaderMaterial({
@@ -60,14 +120,57 @@ export const FireShader = {
     magnitude: { value: 1.3 },
     lacunarity: { value: 2.0 },
     gain: { value: 0.5 },
+    depthTex: { value: null },
+    cameraNear: { value: 0.1 },
+    cameraFar: { value: 2000 },
+    resolution: { value: new Vector2(1, 1) },
+    depthSoftness: { value: 0.1 },
+    colorRamp: { value: null },
+    minTemperature: { value: 1800 },
+    maxTemperature: { value: 4000 },
+    wind: { value: new Vector3() },
+    windDrift: { value: new Vector3() },
+    lean: { value: new Vector3() },
+    densityCutoff: { value: 1.0 },
+    jitterFrame: { value: 0 },
   } as FireShaderUniforms,
 
   vertexShader: /* glsl */ `
     varying vec3 vWorldPos;
 
+    #ifdef FIRE_INSTANCED
+    attribute vec4 instanceInvModelMatrix0;
+    attribute vec4 instanceInvModelMatrix1;
+    attribute vec4 instanceInvModelMatrix2;
+    attribute vec4 instanceInvModelMatrix3;
+    attribute vec3 instanceFireParams;
+
+    flat varying mat4 vInvModelMatrix;
+    flat varying vec3 vFireParams;
+    flat varying vec3 vInstanceColor;
+    #endif
+
     void main() {
-      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-      vWorldPos = (modelMatrix * vec4(position, 1.0)).xyz;
+      vec4 localPos = vec4(position, 1.0);
+
+      #ifdef FIRE_INSTANCED
+      localPos = instanceMatrix * localPos;
+      vInvModelMatrix = mat4(
+        instanceInvModelMatrix0,
+        instanceInvModelMatrix1,
+        instanceInvModelMatrix2,
+        instanceInvModelMatrix3
+      );
+      vFireParams = instanceFireParams;
+      #ifdef USE_INSTANCING_COLOR
+      vInstanceColor = instanceColor;
+      #else
+      vInstanceColor = vec3(1.0);
+      #endif
+      #endif
+
+      gl_Position = projectionMatrix * modelViewMatrix * localPos;
+      vWorldPos = (modelMatrix * localPos).xyz;
     }
   `,
 
@@ -82,9 +185,100 @@ export const FireShader = {
     uniform float lacunarity;
     uniform float gain;
     uniform sampler2D fireTex;
+    uniform vec3 wind;
+    uniform vec3 windDrift;
+    uniform vec3 lean;
 
     varying vec3 vWorldPos;
 
+    #ifdef FIRE_INSTANCED
+    flat varying mat4 vInvModelMatrix;
+    // Seed, magnitude and time offset of this instance
+    flat varying vec3 vFireParams;
+    flat varying vec3 vInstanceColor;
+    #endif
+
+    // The parameters of the volume being drawn: the uniforms, or for an
+    // instanced fire the current instance's, set at the start of main()
+    mat4 fireInvModelMatrix;
+    float fireSeed;
+    float fireTime;
+    float fireMagnitude;
+
+    #ifdef USE_COLOR_RAMP
+    uniform sampler2D colorRamp;
+    #endif
+
+    #ifdef FIRE_EARLY_EXIT
+    uniform float densityCutoff;
+    #endif
+
+    #ifdef FIRE_JITTER
+    uniform float jitterFrame;
+
+    // Interleaved gradient noise by Jimenez: a value in [0, 1) per pixel that
+    // differs enough between neighbours to break up banding into fine grain,
+    // shifted each frame when animated
+    float interleavedGradientNoise(vec2 pixel) {
+      pixel += 5.588238 * jitterFrame;
+      return fract(52.9829189 * fract(dot(pixel, vec2(0.06711056, 0.00583715))));
+    }
+    #endif
+
+    #ifdef USE_BLACKBODY
+    uniform float minTemperature;
+    uniform float maxTemperature;
+
+    // Linear sRGB chromaticity of a blackbody at the given temperature,
+    // normalised so its brightest channel is 1. Follows the Planckian locus fit
+    // by Kim et al., valid (and clamped) between 1667 K and 25000 K.
+    vec3 blackbody(float kelvin) {
+      float t = clamp(kelvin, 1667.0, 25000.0);
+      float t1 = 1e3 / t;
+      float t2 = t1 * t1;
+      float t3 = t2 * t1;
+
+      float x = t < 4000.0
+        ? -0.2661239 * t3 - 0.2343589 * t2 + 0.8776956 * t1 + 0.179910
+        : -3.0258469 * t3 + 2.1070379 * t2 + 0.2226347 * t1 + 0.240390;
+      float x2 = x * x;
+      float x3 = x2 * x;
+      float y = t < 2222.0
+        ? -1.1063814 * x3 - 1.34811020 * x2 + 2.18555832 * x - 0.20219683
+        : t < 4000.0
+          ? -0.9549476 * x3 - 1.37418593 * x2 + 2.09137015 * x - 0.16748867
+          : 3.0817580 * x3 - 5.87338670 * x2 + 3.75112997 * x - 0.37001483;
+
+      // xyY (Y = 1) to XYZ to linear sRGB
+      vec3 xyz = vec3(x / y, 1.0, (1.0 - x - y) / y);
+      vec3 rgb = max(mat3(
+        3.2404542, -0.9692660, 0.0556434,
+        -1.5371385, 1.8760108, -0.2040259,
+        -0.4985314, 0.0415560, 1.0572252
+      ) * xyz, 0.0);
+      return rgb / max(max(rgb.r, rgb.g), rgb.b);
+    }
+    #endif
+
+    #ifdef USE_DEPTH_TEXTURE
+    #include <packing>
+
+    uniform sampler2D depthTex;
+    uniform float cameraNear;
+    uniform float cameraFar;
+    uniform vec2 resolution;
+    uniform float depthSoftness;
+
+    // View-space distance to the opaque surface behind this pixel
+    float sceneDepth() {
+      float depth = texture2D(depthTex, gl_FragCoord.xy / resolution).x;
+      float viewZ = isOrthographic
+        ? orthographicDepthToViewZ(depth, cameraNear, cameraFar)
+        : perspectiveDepthToViewZ(depth, cameraNear, cameraFar);
+      return -viewZ;
+    }
+    #endif
+
     // GLSL simplex noise function by ashima
     vec3 mod289(vec3 x) {
       return x - floor(x * (1.0 / 289.0)) * 289.0;
@@ -177,16 +371,23 @@ export const FireShader = {
     }
 
     vec4 samplerFire(vec3 p, vec4 scale) {
+      // Local units to flame space, where x and z span [-1, 1]
+      const vec3 toFlame = vec3(2.0, 1.0, 2.0);
+
+      // Lean with the wind and motion, increasingly towards the tip
+      p.xz -= ((wind.xz + lean.xz) * toFlame.xz) * (p.y * p.y);
+
       vec2 st = vec2(sqrt(dot(p.xz, p.xz)), p.y);
 
       if(st.x <= 0.0 || st.x >= 1.0 || st.y <= 0.0 || st.y >= 1.0) {
         return vec4(0.0);
       }
 
-      p.y -= (seed + time) * scale.w;
+      p.y -= (fireSeed + fireTime) * scale.w;
+      p -= windDrift * toFlame;
       p *= scale.xyz;
 
-      st.y += sqrt(st.y) * magnitude * turbulence(p);
+      st.y += sqrt(st.y) * fireMagnitude * turbulence(p);
 
       if(st.y <= 0.0 || st.y >= 1.0) {
         return vec4(0.0);
@@ -196,26 +397,111 @@ export const FireShader = {
     }
 
     vec3 localize(vec3 p) {
-      return (invModelMatrix * vec4(p, 1.0)).xyz;
+      return (fireInvModelMatrix * vec4(p, 1.0)).xyz;
+    }
+
+    // Entry and exit distances of a local-space ray through the unit box
+    vec2 intersectBox(vec3 origin, vec3 dir) {
+      vec3 invDir = 1.0 / dir;
+      vec3 t0 = (vec3(-0.5) - origin) * invDir;
+      vec3 t1 = (vec3(0.5) - origin) * invDir;
+      vec3 tMin = min(t0, t1);
+      vec3 tMax = max(t0, t1);
+      return vec2(max(max(tMin.x, tMin.y), tMin.z), min(min(tMax.x, tMax.y), tMax.z));
     }
 
     void main() {
-      vec3 rayPos = vWorldPos;
-      vec3 rayDir = normalize(rayPos - cameraPosition);
-      float rayLen = 0.0288 * length(scale.xyz);
+      #ifdef FIRE_INSTANCED
+      fireInvModelMatrix = vInvModelMatrix;
+      fireSeed = seed + vFireParams.x;
+      fireMagnitude = magnitude * vFireParams.y;
+      fireTime = time + vFireParams.z;
+      #else
+      fireInvModelMatrix = invModelMatrix;
+      fireSeed = seed;
+      fireMagnitude = magnitude;
+      fireTime = time;
+      #endif
+
+      // Orthographic cameras cast parallel rays along their view direction from
+      // the camera plane; perspective rays fan out from the camera position
+      vec3 rayDir = isOrthographic
+        ? -vec3(viewMatrix[0][2], viewMatrix[1][2], viewMatrix[2][2])
+        : normalize(vWorldPos - cameraPosition);
+      vec3 rayOrigin = isOrthographic
+        ? vWorldPos - rayDir * dot(vWorldPos - cameraPosition, rayDir)
+        : cameraPosition;
+
+      // Clip the view ray to the volume in local space. Distances stay in world
+      // units because the local direction is not renormalised; starting at zero
+      // keeps the march in front of a camera that is inside the volume.
+      vec3 origin = localize(rayOrigin);
+      vec3 dir = (fireInvModelMatrix * vec4(rayDir, 0.0)).xyz;
+      vec2 bounds = intersectBox(origin, dir);
+      float tStart = max(bounds.x, 0.0);
+      float stepLen = max(bounds.y - tStart, 0.0) / float(ITERATIONS);
+
+      // Weight each sample by the local distance it covers, so brightness does
+      // not depend on ITERATIONS. 20 samples per unit matches the classic look.
+      float stepWeight = stepLen * length(dir) * 20.0;
+
+      // Where within its step each sample sits: the middle, or a per-pixel
+      // offset so neighbouring pixels sample different slices
+      float stepOffset = 0.5;
+      #ifdef FIRE_JITTER
+      stepOffset = interleavedGradientNoise(gl_FragCoord.xy);
+      #endif
 
       vec4 col = vec4(0.0);
 
+      #ifdef USE_DEPTH_TEXTURE
+      float surfaceDepth = sceneDepth();
+      #endif
+
       for(int i = 0; i < ITERATIONS; i++) {
-        rayPos += rayDir * rayLen;
-        vec3 lp = localize(rayPos);
+        float t = tStart + (float(i) + stepOffset) * stepLen;
+        float depthFade = 1.0;
+
+        #ifdef USE_DEPTH_TEXTURE
+        // Stop at the first opaque surface and fade out just in front of it
+        vec3 rayPos = rayOrigin + rayDir * t;
+        float sampleDepth = -(viewMatrix * vec4(rayPos, 1.0)).z;
+        depthFade = clamp((surfaceDepth - sampleDepth) / max(depthSoftness, 1e-4), 0.0, 1.0);
+        if(depthFade <= 0.0) {
+          break;
+        }
+        #endif
+
+        vec3 lp = origin + dir * t;
         lp.y += 0.5;
         lp.xz *= 2.0;
-        col += samplerFire(lp, noiseScale);
+        col += samplerFire(lp, noiseScale) * depthFade * stepWeight;
+
+        #ifdef FIRE_EARLY_EXIT
+        // Little of the ray beyond shows through a core this dense
+        if(col.r >= densityCutoff) {
+          break;
+        }
+        #endif
       }
 
+      #ifdef USE_COLOR_RAMP
+      // Color by accumulated density: thin edges from the start of the ramp,
+      // the dense core from its end
+      float density = col.r;
+      col.rgb = density * texture2D(colorRamp, vec2(clamp(density, 0.0, 1.0), 0.5)).rgb;
+      #elif defined(USE_BLACKBODY)
+      // Denser flame burns hotter
+      float density = col.r;
+      float kelvin = mix(minTemperature, maxTemperature, clamp(density, 0.0, 1.0));
+      col.rgb = density * blackbody(kelvin);
+      #else
       // Apply color tint to the fire
       col.rgb *= color;
+      #ifdef FIRE_INSTANCED
+      col.rgb *= vInstanceColor;
+      #endif
+      #endif
       col.a = col.r;
       gl_FragColor = col;
     }
@@ -0,0 +1,132 @@
+import { Vector3 } from 'three'
+import { simplexNoise } from './internal/noise'
+
+/**
+ * Properties for creating a FireWind
+ */
+export interface FireWindProps {
+  /** Direction the wind blows towards, normalized on use (default: [1, 0, 0]) */
+  direction?: [number, number, number]
+  /** Base wind speed in world units per second (default: 0.3) */
+  speed?: number
+  /** Extra speed at the peak of a gust, in world units per second (default: 0.2) */
+  gustAmplitude?: number
+  /** Gusts per second (default: 0.25) */
+  gustFrequency?: number
+  /** Strength of the small, local swirls in world units per second (default: 0.05) */
+  turbulence?: number
+  /** Noise seed; fields with the same seed and parameters blow identically (default: 0) */
+  seed?: number
+}
+
+/** World units per turbulence swirl. */
+const TURBULENCE_SIZE = 2
+/** How fast the turbulence swirls change, per second. */
+const TURBULENCE_RATE = 0.7
+
+const _direction = new Vector3()
+
+/**
+ * A wind field shared by any number of fires.
+ *
+ * The wind is a pure function of time and world position: a steady breeze along
+ * {@link direction}, gusts that roll downwind at the wind's own speed — so a
+ * gust reaches the fires of a camp one after the other — and some small local
+ * turbulence. Fires subscribed to the field sample it at their world position
+ * on each `update(time)` and lean and drift their flames accordingly.
+ *
+ * @example
+ * ```ts
+ * const wind = new FireWind({ direction: [1, 0, 0.3], speed: 0.4, gustAmplitude: 0.3 })
+ * wind.subscribe(campfire)
+ * wind.subscribe(torch)
+ *
+ * // In animation loop: the fires sample the field themselves
+ * campfire.update(time)
+ * torch.update(time)
+ * ```
+ */
+export class FireWind {
+  /** Direction the wind blows towards; its length is ignored. */
+  public readonly direction: Vector3
+  /** Base wind speed in world units per second. */
+  public speed: number
+  /** Extra speed at the peak of a gust, in world units per second. */
+  public gustAmplitude: number
+  /** Gusts per second. */
+  public gustFrequency: number
+  /** Strength of the small, local swirls in world units per second. */
+  public turbulence: number
+  /** Noise seed of the gusts and turbulence. */
+  public seed: number
+
+  /**
+   * Creates a new FireWind
+   *
+   * @param props - Wind options
+   */
+  constructor({
+    direction = [1, 0, 0],
+    speed = 0.3,
+    gustAmplitude = 0.2,
+    gustFrequency = 0.25,
+    turbulence = 0.05,
+    seed = 0,
+  }: FireWindProps = {}) {
+    this.direction = new Vector3(...direction)
+    this.speed = speed
+    this.gustAmplitude = gustAmplitude
+    this.gustFrequency = gustFrequency
+    this.turbulence = turbulence
+    this.seed = seed
+  }
+
+  /**
+   * Wind velocity at a world position and time.
+   *
+   * @param time - Clock time in seconds
+   * @param position - World-space position
+   * @param target - Vector to write the result to (default: a new Vector3)
+   * @returns The wind in world units per second
+   */
+  public sample(time: number, position: Vector3, target = new Vector3()): Vector3 {
+    const direction = _direction.copy(this.direction).normalize()
+
+    // Gusts roll downwind at the wind's speed: a point further downwind sees
+    // the same gust later
+    const travel = this.speed > 0 ? position.dot(direction) / this.speed : 0
+    const gust = (simplexNoise((time - travel) * this.gustFrequency, this.seed, 0) + 1) / 2
+    target.copy(direction).multiplyScalar(this.speed + this.gustAmplitude * gust)
+
+    if (this.turbulence !== 0) {
+      const u = position.x / TURBULENCE_SIZE
+      const v = position.z / TURBULENCE_SIZE
+      const w = time * TURBULENCE_RATE + this.seed
+      target.x += this.turbulence * simplexNoise(u, v, w)
+      target.z += this.turbulence * simplexNoise(u + 31.7, v - 17.3, w)
+    }
+    return target
+  }
+
+  /**
+   * Lets a fire follow this wind. A fire follows one field at a time; this
+   * replaces its previous one.
+   *
+   * @param fire - Fire to drive
+   * @returns A function that unsubscribes the fire again
+   */
+  public subscribe(fire: { windField: FireWind | null }): () => void {
+    fire.windField = this
+    return () => this.unsubscribe(fire)
+  }
+
+  /**
+   * Stops a fire from following this wind. Its `wind` keeps the last sampled
+   * value.
+   *
+   * @param fire - Fire to release
+   */
+  public unsubscribe(fire: { windField: FireWind | null }): void {
+    if (fire.windField === this) fire.windField = null
+  }
+}
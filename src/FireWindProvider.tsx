@@ -0,0 +1,66 @@
+import type React from 'react'
+import { createContext, useContext, useLayoutEffect, useMemo } from 'react'
+import { FireWind, type FireWindProps } from './FireWind'
+
+/** The wind field the fires below a {@link FireWindProvider} follow. */
+export const FireWindContext = createContext<FireWind | null>(null)
+
+/**
+ * Props for the FireWindProvider React component
+ */
+export interface FireWindProviderProps extends FireWindProps {
+  /**
+   * Existing field to share, e.g. with vanilla code; the other props given
+   * then update it, and it keeps its own settings for those left out
+   */
+  wind?: FireWind
+  /** Child components */
+  children?: React.ReactNode
+}
+
+/**
+ * Shares one wind field with every `<Fire>` below it, GLSL or TSL.
+ *
+ * Each fire samples the field at its own position on every frame, so gusts
+ * sweep across the scene consistently. A fire opts out with `windField={null}`.
+ *
+ * @example
+ * ```tsx
+ * <FireWindProvider direction={[1, 0, 0.3]} speed={0.4} gustAmplitude={0.3}>
+ *   <Fire texture="/fire.png" position={[0, 0, 0]} />
+ *   <Fire texture="/fire.png" position={[4, 0, 1]} />
+ * </FireWindProvider>
+ * ```
+ */
+export function FireWindProvider({
+  wind,
+  direction,
+  speed,
+  gustAmplitude,
+  gustFrequency,
+  turbulence,
+  seed,
+  children,
+}: FireWindProviderProps) {
+  const field = useMemo(() => wind ?? new FireWind(), [wind])
+  const [dx, dy, dz] = direction ?? []
+
+  // Only the props given: a shared field keeps its own settings for the rest
+  useLayoutEffect(() => {
+    if (dx !== undefined && dy !== undefined && dz !== undefined) field.direction.set(dx, dy, dz)
+    if (speed !== undefined) field.speed = speed
+    if (gustAmplitude !== undefined) field.gustAmplitude = gustAmplitude
+    if (gustFrequency !== undefined) field.gustFrequency = gustFrequency
+    if (turbulence !== undefined) field.turbulence = turbulence
+    if (seed !== undefined) field.seed = seed
+  }, [field, dx, dy, dz, speed, gustAmplitude, gustFrequency, turbulence, seed])
+
+  return <FireWindContext.Provider value={field}>{children}</FireWindContext.Provider>
+}
+
+/**
+ * The wind field of the nearest {@link FireWindProvider}, or null outside one.
+ */
+export function useFireWind(): FireWind | null {
+  return useContext(FireWindContext)
+}
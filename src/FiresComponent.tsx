@@ -0,0 +1,152 @@
+import type React from 'react'
+import { useRef, useMemo, forwardRef } from 'react'
+import { extend, useLoader } from '@react-three/fiber'
+import { InstancedFire, type InstancedFireProps } from './InstancedFire'
+import { TextureLoader, type DepthTexture, type Texture } from 'three'
+import { useFireBindings } from './internal/useFireBindings'
+import { FireInstancesContext, useFireInstances } from './internal/useFireInstances'
+import { useFireArgs, useFireOptions, useLiveFireProps } from './internal/useFireProps'
+import type { FireOptions } from './internal/AbstractFire'
+
+declare module '@react-three/fiber' {
+  interface ThreeElements {
+    instancedFire: Omit<ThreeElements['mesh'], 'args'> & { args?: [InstancedFireProps] }
+  }
+}
+
+let extended = false
+function ensureExtended() {
+  if (!extended) {
+    extend({ InstancedFire })
+    extended = true
+  }
+}
+
+/**
+ * Props for the Fires React component
+ */
+export interface FiresProps extends Omit<InstancedFireProps, 'fireTex' | 'count'> {
+  /** Fire texture URL or Three.js Texture object */
+  texture: string | Texture
+  /** Maximum number of `<FireInstance>`s drawn; changing it rebuilds the mesh (default: 1000) */
+  limit?: number
+  /** Auto-update time from useFrame (default: true) */
+  autoUpdate?: boolean
+  /** Custom update function called each frame */
+  onUpdate?: (fire: InstancedFire, time: number) => void
+  /** `<FireInstance>`s and other child components */
+  children?: React.ReactNode
+  /** Position in 3D space */
+  position?: [number, number, number]
+  /** Rotation in radians */
+  rotation?: [number, number, number]
+  /** Scale factor (uniform or per-axis) */
+  scale?: [number, number, number] | number
+}
+
+/**
+ * Ref interface for imperative control of a fire group
+ */
+export interface FiresRef {
+  /** Instanced fire mesh */
+  fire: InstancedFire | null
+  /** Update fire animation manually */
+  update: (time?: number) => void
+}
+
+/** Props that can only be applied by constructing a new mesh. */
+type ConstructProps = {
+  depthTexture: DepthTexture | null
+  count: number
+}
+
+type LeafProps = {
+  constructProps: ConstructProps
+  options: FireOptions
+  fireRef: React.Ref<InstancedFire>
+  forwarded: Record<string, unknown>
+  children?: React.ReactNode
+}
+
+function FiresFromUrl({ url, ...props }: LeafProps & { url: string }) {
+  const texture = useLoader(TextureLoader, url)
+  return <FiresFromTexture texture={texture} {...props} />
+}
+
+/**
+ * Leaf renderer for a pre-loaded Texture object. No loader hook runs here.
+ */
+function FiresFromTexture({
+  texture,
+  constructProps,
+  options,
+  fireRef,
+  forwarded,
+  children,
+}: LeafProps & { texture: Texture }) {
+  const args = useFireArgs(texture, constructProps, options)
+  return (
+    <instancedFire ref={fireRef} args={args} {...forwarded}>
+      {children}
+    </instancedFire>
+  )
+}
+
+/**
+ * React Three Fiber component drawing many fires in one draw call
+ *
+ * Every `<FireInstance>` below it is one fire, with its own transform, seed,
+ * color, magnitude and time offset; all other parameters are shared and
+ * behave as on `<Fire>`. Instances are placed relative to the group.
+ *
+ * @example
+ * ```tsx
+ * <Fires texture="/fire.png" limit={400} color="orange">
+ *   {braziers.map((position, i) => (
+ *     <FireInstance key={i} position={position} magnitude={0.8 + (i % 3) * 0.2} />
+ *   ))}
+ * </Fires>
+ * ```
+ */
+export const FiresComponent = forwardRef<FiresRef, FiresProps>(
+  (
+    { texture, limit = 1000, depthTexture = null, autoUpdate = true, onUpdate, children, ...props },
+    ref,
+  ) => {
+    ensureExtended()
+    const fireRef = useRef<InstancedFire>(null)
+    const [options, forwarded] = useFireOptions(props)
+    const constructProps = useMemo(() => ({ depthTexture, count: limit }), [depthTexture, limit])
+
+    useLiveFireProps(fireRef, options)
+    const registry = useFireInstances(fireRef)
+    useFireBindings(ref, fireRef, autoUpdate, onUpdate)
+
+    const leaf =
+      typeof texture === 'string' ? (
+        <FiresFromUrl
+          url={texture}
+          constructProps={constructProps}
+          options={options}
+          fireRef={fireRef}
+          forwarded={forwarded}
+        >
+          {children}
+        </FiresFromUrl>
+      ) : (
+        <FiresFromTexture
+          texture={texture}
+          constructProps={constructProps}
+          options={options}
+          fireRef={fireRef}
+          forwarded={forwarded}
+        >
+          {children}
+        </FiresFromTexture>
+      )
+
+    return <FireInstancesContext.Provider value={registry}>{leaf}</FireInstancesContext.Provider>
+  },
+)
+
+FiresComponent.displayName = 'Fires'
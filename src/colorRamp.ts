@@ -0,0 +1,90 @@
+import {
+  Color,
+  DataTexture,
+  LinearFilter,
+  ClampToEdgeWrapping,
+  RGBAFormat,
+  SRGBColorSpace,
+  type Texture,
+} from 'three'
+
+/** A gradient stop: position in `[0, 1]` and its color. */
+export type ColorStop = [offset: number, color: Color | string | number]
+
+/**
+ * Maps accumulated fire density to color: sparse edges take the start of the
+ * ramp, the dense core its end. Either color stops or a gradient texture whose
+ * first row is sampled left to right (sRGB, like any color texture).
+ */
+export type ColorRamp = ColorStop[] | Texture
+
+/** Texels in a ramp texture baked from color stops. */
+const RAMP_WIDTH = 256
+
+const _from = new Color()
+const _to = new Color()
+const _mixed = new Color()
+
+/**
+ * Bakes color stops into a 1D gradient texture.
+ *
+ * Colors are interpolated in linear space and stored as sRGB, so the shader
+ * reads back the same linear colors a `color` uniform would hold.
+ *
+ * @param stops - Gradient stops; offsets outside `[0, 1]` are clamped
+ * @param target - Ramp texture to refill in place instead of allocating a new one
+ * @returns The baked texture (`target` when given)
+ */
+export function createColorRampTexture(stops: ColorStop[], target?: DataTexture): DataTexture {
+  if (stops.length === 0) {
+    throw new Error('createColorRampTexture: at least one color stop is required')
+  }
+
+  const sorted = stops
+    .map(([offset, color]): [number, Color] => [Math.min(Math.max(offset, 0), 1), new Color(color)])
+    .sort((a, b) => a[0] - b[0])
+
+  const texture = target ?? new DataTexture(new Uint8Array(RAMP_WIDTH * 4), RAMP_WIDTH, 1)
+  const data = texture.image.data as Uint8Array
+  const rgb = { r: 0, g: 0, b: 0 }
+
+  for (let i = 0; i < RAMP_WIDTH; i++) {
+    const u = i / (RAMP_WIDTH - 1)
+    const next = sorted.findIndex(([offset]) => offset >= u)
+
+    if (next <= 0) {
+      _mixed.copy(sorted[next === 0 ? 0 : sorted.length - 1][1])
+    } else {
+      const [fromOffset, from] = sorted[next - 1]
+      const [toOffset, to] = sorted[next]
+      const span = toOffset - fromOffset
+      _mixed.lerpColors(_from.copy(from), _to.copy(to), span > 0 ? (u - fromOffset) / span : 1)
+    }
+
+    _mixed.getRGB(rgb, SRGBColorSpace)
+    data[i * 4] = Math.round(rgb.r * 255)
+    data[i * 4 + 1] = Math.round(rgb.g * 255)
+    data[i * 4 + 2] = Math.round(rgb.b * 255)
+    data[i * 4 + 3] = 255
+  }
+
+  texture.format = RGBAFormat
+  texture.colorSpace = SRGBColorSpace
+  texture.magFilter = texture.minFilter = LinearFilter
+  texture.wrapS = texture.wrapT = ClampToEdgeWrapping
+  texture.needsUpdate = true
+  return texture
+}
+
+/**
+ * Whether two ramps render the same: the same texture, or stops with equal
+ * offsets and colors. Lets setters ignore re-assignments of equal stop arrays
+ * (e.g. inline JSX literals) without re-baking.
+ */
+export function isSameColorRamp(a: ColorRamp | null, b: ColorRamp | null): boolean {
+  if (a === b) return true
+  if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false
+  return a.every(
+    ([offset, color], i) => offset === b[i][0] && _from.set(color).equals(_to.set(b[i][1])),
+  )
+}
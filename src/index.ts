@@ -38,13 +38,67 @@
 // Vanilla Three.js exports
 /** Fire mesh class for vanilla Three.js usage */
 export { Fire as FireMesh, type FireProps as FireMeshProps } from './Fire'
+/** Many fires drawn in one call, for vanilla Three.js usage */
+export { InstancedFire, type InstancedFireProps } from './InstancedFire'
 /** Fire shader definition and uniforms */
 export { FireShader, type FireShaderUniforms } from './FireShader'
+/** Color ramp helpers for density-based fire gradients */
+export { createColorRampTexture, type ColorRamp, type ColorStop } from './colorRamp'
+/** Raycast hit reported by a fire with a `raycastThreshold` */
+export type { FireIntersection } from './internal/AbstractFire'
+/** Level of detail picked from a fire's size on screen */
+export type { FireLodLevel, FireOptions } from './internal/AbstractFire'
+/** Point light that flickers with a fire */
+export { FireLight, type FireLightProps as FireLightObjectProps } from './FireLight'
+/** Wind field shared by any number of fires */
+export { FireWind, type FireWindProps } from './FireWind'
+/** Frame-rate governor trading the quality of all fires */
+export {
+  FireQualityManager,
+  type FireQualityManagerProps,
+  type FireQualityTier,
+  type FireQualityChangeEvent,
+} from './FireQualityManager'
+/** Pre-allocated fires for short-lived effects */
+export {
+  FirePool,
+  type FirePoolOptions,
+  type FireSpawnOptions,
+  type FireCompiler,
+} from './FirePool'
+/** Reduced-resolution rendering of a scene's fires */
+export { FireOffscreenPass, type FireCompositeUniforms } from './FireOffscreenPass'
+export type { FireOffscreenPassOptions } from './internal/AbstractFirePass'
 
 // React Three Fiber exports
 /** React component for fire effect */
 export { FireComponent, useFire, type FireRef, type FireProps } from './FireComponent'
+/** React components drawing many fires in one call */
+export { FiresComponent, type FiresProps, type FiresRef } from './FiresComponent'
+export { FireInstance, type FireInstanceProps } from './FireInstance'
+/** React component for a light that flickers with its fire */
+export { FireLightComponent, type FireLightProps } from './FireLightComponent'
+/** Context provider sharing a wind field with the fires below it */
+export {
+  FireWindProvider,
+  useFireWind,
+  type FireWindProviderProps,
+} from './FireWindProvider'
+/** Context provider holding a frame rate for the fires below it */
+export {
+  FireQualityProvider,
+  useFireQuality,
+  useFireQualityManager,
+  type FireQualityProviderProps,
+} from './FireQualityProvider'
+/** React component drawing the scene's fires at reduced resolution */
+export {
+  FireOffscreenPassComponent,
+  type FireOffscreenPassProps,
+} from './FireOffscreenPassComponent'
 
 // Default export (React component)
 /** Default Fire component for React Three Fiber */
 export { FireComponent as Fire } from './FireComponent'
+/** Fire group component for React Three Fiber */
+export { FiresComponent as Fires } from './FiresComponent'
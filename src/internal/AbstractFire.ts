@@ -1,4 +1,86 @@
-import { Mesh, Color, type Material, type Matrix4, type Vector3 } from 'three'
+import {
+  Mesh,
+  Color,
+  Vector3,
+  BackSide,
+  FrontSide,
+  PerspectiveCamera,
+  OrthographicCamera,
+  Quaternion,
+  Matrix3,
+  Matrix4,
+  type BufferGeometry,
+  type Camera,
+  type Object3D,
+  type Intersection,
+  type Raycaster,
+  type Material,
+  type Vector4,
+  type Scene,
+  type Texture,
+  type DataTexture,
+  type WebGLRenderer,
+} from 'three'
+import { createColorRampTexture, isSameColorRamp, type ColorRamp } from '../colorRamp'
+import type { FireWind } from '../FireWind'
+import type { FireQualityManager } from '../FireQualityManager'
+import type { FireInstances } from './FireInstances'
+import { turbulence, type Noise3 } from './noise'
+import { releaseFireGeometry } from './sharedResources'
+import { sampleTextureRed } from './textureData'
+
+const _cameraLocal = new Vector3()
+const _worldScale = new Vector3()
+const _local = new Vector3()
+const _inverse = new Matrix4()
+const _rayOrigin = new Vector3()
+const _rayDirection = new Vector3()
+const _point = new Vector3()
+const _toLocal = new Matrix3()
+const _drift = new Vector3()
+const _worldPosition = new Vector3()
+const _motion = new Vector3()
+const _springForce = new Vector3()
+const _world = new Matrix4()
+const _parentInverse = new Matrix4()
+const _worldRotation = new Quaternion()
+const _alignment = new Quaternion()
+const _flameAxis = new Vector3()
+const _up = new Vector3()
+const _cameraWorld = new Vector3()
+const _instanceWorld = new Matrix4()
+const _center = new Vector3()
+/** Stand-in mesh for box raycasts against a single instance. */
+const _instanceMesh = new Mesh()
+
+/** Longest frame the inertia spring integrates; longer gaps are treated as a pause. */
+const MAX_INERTIA_DELTA = 0.1
+/** Spring integration step in seconds. */
+const INERTIA_STEP = 1 / 120
+
+/** Frames the animated jitter cycles through before repeating. */
+const JITTER_FRAMES = 64
+
+/** Length in fire-local units of a step of the density raycast. */
+const RAYCAST_STEP = 1 / 64
+
+/**
+ * Picks a random noise seed for a fire created without an explicit `seed`.
+ */
+export const randomSeed = (): number => Math.random() * 19.19
+
+/**
+ * Whether a world-space point lies within `margin` world units of the unit box
+ * that `inverse` maps into, given the box's world scale.
+ */
+const boxContains = (point: Vector3, inverse: Matrix4, scale: Vector3, margin: number): boolean => {
+  _cameraLocal.copy(point).applyMatrix4(inverse)
+  return (
+    Math.abs(_cameraLocal.x) <= 0.5 + margin / Math.abs(scale.x) &&
+    Math.abs(_cameraLocal.y) <= 0.5 + margin / Math.abs(scale.y) &&
+    Math.abs(_cameraLocal.z) <= 0.5 + margin / Math.abs(scale.z)
+  )
+}
 
 /**
  * The subset of fire uniforms shared by the GLSL and TSL implementations.
@@ -9,47 +91,804 @@ import { Mesh, Color, type Material, type Matrix4, type Vector3 } from 'three'
  */
 export interface FireUniformBag {
   time: { value: number }
+  seed: { value: number }
   color: { value: Color }
   invModelMatrix: { value: Matrix4 }
   scale: { value: Vector3 }
+  noiseScale: { value: Vector4 }
   magnitude: { value: number }
   lacunarity: { value: number }
   gain: { value: number }
+  depthSoftness: { value: number }
+  minTemperature: { value: number }
+  maxTemperature: { value: number }
+  /** Wind in the fire's local space, derived from {@link AbstractFire.wind} */
+  wind: { value: Vector3 }
+  /** Local-space distance the wind has carried the noise so far */
+  windDrift: { value: Vector3 }
+  /** Local-space shift of the flame tip trailing the fire's motion */
+  lean: { value: Vector3 }
+  /** Accumulated density at which rays stop marching in early-exit mode */
+  densityCutoff: { value: number }
+  /** Frame of the animated ray-start jitter, advanced by `update()` */
+  jitterFrame: { value: number }
+}
+
+/**
+ * A raycast hit on a fire in density-threshold mode: where along the ray the
+ * flames first reach {@link AbstractFire.raycastThreshold}.
+ */
+export interface FireIntersection extends Intersection {
+  /** Fire density at the hit point */
+  density: number
+}
+
+/**
+ * Compile-time shader parameters. Changing any of them needs a new shader
+ * variant (new GLSL defines, or a regenerated TSL node graph).
+ */
+export interface FireVariant {
+  /** Ray marching samples per pixel */
+  iterations: number
+  /** Turbulence noise octaves */
+  octaves: number
+  /** Color by blackbody temperature instead of the `color` tint */
+  blackbody: boolean
+  /** End rays once they reach {@link AbstractFire.densityCutoff} */
+  earlyExit: boolean
+  /** Offset each pixel's samples by noise, see {@link AbstractFire.jitter} */
+  jitter: boolean
+}
+
+/**
+ * A level of detail: the shader quality a fire draws with while it covers at
+ * least {@link minScreenSize} of the viewport.
+ */
+export interface FireLodLevel {
+  /**
+   * Smallest projected size the level is used for, as a fraction of the
+   * viewport height covered by the fire's bounds (see
+   * {@link AbstractFire.getScreenSize})
+   */
+  minScreenSize: number
+  /** Ray marching samples per pixel at this level */
+  iterations: number
+  /** Turbulence noise octaves at this level */
+  octaves: number
+  /**
+   * Cheaper stand-in drawn instead of the volume at this level, e.g. a sprite
+   * added as a child of the fire. It is shown and hidden with the level; add it
+   * to the scene yourself.
+   */
+  impostor?: Object3D
+}
+
+/** Whether two sets of LOD levels pick the same shaders and impostors. */
+const isSameLod = (a: readonly FireLodLevel[] | null, b: readonly FireLodLevel[] | null) =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.length === b.length &&
+    a.every(
+      (level, i) =>
+        level.minScreenSize === b[i].minScreenSize &&
+        level.iterations === b[i].iterations &&
+        level.octaves === b[i].octaves &&
+        level.impostor === b[i].impostor,
+    ))
+
+/**
+ * Fire parameters that can change on a live fire. {@link AbstractFire.applyOptions}
+ * applies them through the fire's setters, so none of them needs a new mesh.
+ */
+export interface FireOptions {
+  /** Fire color tint (default: 0xeeeeee) */
+  color?: Color | string | number
+  /**
+   * Color stops or gradient texture applied by density, replacing `color`
+   * (default: none — single tint)
+   */
+  colorRamp?: ColorRamp | null
+  /**
+   * Color by blackbody temperature, from `minTemperature` at the thinnest parts
+   * to `maxTemperature` at the densest, instead of `color` (default: false)
+   */
+  blackbody?: boolean
+  /** Blackbody temperature in Kelvin of the thinnest flame (default: 1800) */
+  minTemperature?: number
+  /** Blackbody temperature in Kelvin of the densest flame (default: 4000) */
+  maxTemperature?: number
+  /** Ray marching iterations - higher = better quality, lower performance (default: 20) */
+  iterations?: number
+  /** Noise octaves for turbulence (default: 3) */
+  octaves?: number
+  /** Noise scaling parameters [x, y, z, time] (default: [1, 2, 1, 0.3]) */
+  noiseScale?: [number, number, number, number]
+  /** Fire shape intensity (default: 1.3) */
+  magnitude?: number
+  /** Noise lacunarity - frequency multiplier (default: 2.0) */
+  lacunarity?: number
+  /** Noise gain - amplitude multiplier (default: 0.5) */
+  gain?: number
+  /** World-space wind in units per second; leans and carries the flames (default: [0, 0, 0]) */
+  wind?: [number, number, number]
+  /** Shared wind field to follow instead of `wind` (default: none) */
+  windField?: FireWind | null
+  /** Seconds of motion the flames trail behind a moving fire, 0 = off (default: 0) */
+  inertia?: number
+  /** Spring stiffness of the trailing flame in 1/s² (default: 60) */
+  inertiaStiffness?: number
+  /** Spring damping of the trailing flame in 1/s (default: 10) */
+  inertiaDamping?: number
+  /** World direction the flames rise along regardless of rotation (default: none — local +Y) */
+  flameDirection?: [number, number, number] | null
+  /** Noise seed; fix it for reproducible output (default: random) */
+  seed?: number
+  /** Distance in world units over which density fades in front of geometry (default: 0.1) */
+  depthSoftness?: number
+  /** Start with the animation frozen (default: false) */
+  paused?: boolean
+  /** Animation speed multiplier (default: 1) */
+  timeScale?: number
+  /** Seconds added to the animation time (default: 0) */
+  timeOffset?: number
+  /**
+   * Density raycasts must reach to hit the fire, `null` to hit its bounding box
+   * (default: null)
+   */
+  raycastThreshold?: number | null
+  /** Levels of detail picked from the fire's size on screen (default: none) */
+  lod?: readonly FireLodLevel[] | null
+  /** Fraction of a LOD threshold the screen size must pass to switch level (default: 0.1) */
+  lodHysteresis?: number
+  /** Quality manager scaling the shader to the frame budget (default: none) */
+  qualityManager?: FireQualityManager | null
+  /**
+   * Accumulated density at which rays stop marching, `null` to always take
+   * every sample (default: null)
+   */
+  densityCutoff?: number | null
+  /** Offset each pixel's samples by noise to hide banding at low `iterations` (default: false) */
+  jitter?: boolean
+  /** Shift the jitter pattern every update, for temporal anti-aliasing (default: false) */
+  jitterAnimated?: boolean
+}
+
+/** Fire options with every value filled in but the seed, which stays random when left out. */
+export type ResolvedFireOptions = Required<Omit<FireOptions, 'seed'>> & Pick<FireOptions, 'seed'>
+
+/** The value of each option a fire is created without. */
+export const FIRE_OPTION_DEFAULTS: Readonly<Required<Omit<FireOptions, 'seed'>>> = {
+  color: 0xeeeeee,
+  colorRamp: null,
+  blackbody: false,
+  minTemperature: 1800,
+  maxTemperature: 4000,
+  iterations: 20,
+  octaves: 3,
+  noiseScale: [1, 2, 1, 0.3],
+  magnitude: 1.3,
+  lacunarity: 2.0,
+  gain: 0.5,
+  wind: [0, 0, 0],
+  windField: null,
+  inertia: 0,
+  inertiaStiffness: 60,
+  inertiaDamping: 10,
+  flameDirection: null,
+  depthSoftness: 0.1,
+  paused: false,
+  timeScale: 1,
+  timeOffset: 0,
+  raycastThreshold: null,
+  lod: null,
+  lodHysteresis: 0.1,
+  qualityManager: null,
+  densityCutoff: null,
+  jitter: false,
+  jitterAnimated: false,
+}
+
+/**
+ * Picks the options `defaults` has values for, and the seed, out of `props`;
+ * those left out or `undefined` are taken from `defaults`. Other props, such
+ * as the texture, are dropped.
+ *
+ * @param props - Options, possibly among other props
+ * @param defaults - Values of the options left out
+ */
+export function resolveFireOptions<TDefaults extends FireOptions = ResolvedFireOptions>(
+  props: FireOptions,
+  defaults: TDefaults = FIRE_OPTION_DEFAULTS as TDefaults,
+): TDefaults {
+  const given = Object.entries(props).filter(
+    ([key, value]) => value !== undefined && (key in defaults || key === 'seed'),
+  )
+  return { ...defaults, ...Object.fromEntries(given) }
 }
 
 /**
  * Shared base class for the volumetric fire meshes.
  *
  * Holds the animation/update lifecycle, GPU resource disposal, and the public
- * parameter accessors. Subclasses only build their geometry/material and expose
- * their uniform bag via {@link getUniforms}.
+ * parameter accessors. Subclasses only build their geometry/material, expose
+ * their uniform bag via {@link getUniforms} and rebuild their shader via
+ * {@link applyVariant}.
  *
  * @typeParam TMat - The concrete material type used by the subclass.
  */
 export abstract class AbstractFire<TMat extends Material> extends Mesh {
   declare material: TMat
   protected _time = 0
+  protected _timeOffset = 0
+  /** Last clock value passed to `update()`, used to derive the frame delta. */
+  protected _clock: number | undefined = undefined
+  /** Set by `restart()`: the next `update(time)` takes up the clock without advancing. */
+  private _resyncClock = false
+
+  /** Freezes the animation while `update()` keeps tracking the clock. */
+  public paused = false
+
+  /** Speed multiplier applied to clock deltas passed to `update()`. Default: 1 */
+  public timeScale = 1
+
+  /**
+   * Density the flames must reach for a raycast to hit the fire, or `null` to
+   * hit its whole bounding box like any mesh. With a threshold, rays are
+   * marched through the volume on the CPU (see {@link sampleDensity}), so
+   * clicks pass through the empty parts of the box to objects behind it.
+   * Default: null
+   */
+  public raycastThreshold: number | null = null
+
+  /**
+   * Shared wind field the fire follows, or `null` to keep its own
+   * {@link wind}. While set, each `update(time)` samples the field at the
+   * fire's world position, overwriting `wind`.
+   * Default: null
+   */
+  public windField: FireWind | null = null
+
+  /**
+   * How far the flames trail behind the fire's motion, in seconds of travel:
+   * a fire moving at 2 units/s with an inertia of 0.1 bends its tip 0.2 units
+   * back. 0 turns the trailing off.
+   * Default: 0
+   */
+  public inertia = 0
+
+  /**
+   * Stiffness of the spring that pulls the trailing flame towards the fire's
+   * current velocity, in 1/s². Higher values follow changes of speed faster.
+   * Default: 60
+   */
+  public inertiaStiffness = 60
+
+  /**
+   * Damping of the trailing flame's spring, in 1/s. Lower values let the flame
+   * sway longer once the fire stops.
+   * Default: 10
+   */
+  public inertiaDamping = 10
+
+  /**
+   * How far, as a fraction of a threshold, the screen size must move past a
+   * {@link lod} level's `minScreenSize` before the fire switches level. Keeps
+   * a fire hovering around a threshold from popping back and forth.
+   * Default: 0.1
+   */
+  public lodHysteresis = 0.1
+
+  /**
+   * Shift the {@link jitter} pattern on every `update()`, so that temporal
+   * anti-aliasing (TAA) averages the grain away over a few frames.
+   * Default: false
+   */
+  public jitterAnimated = false
+
+  /** Spring-smoothed world-space velocity the flames trail behind. */
+  private readonly _velocity = new Vector3()
+  /** Rate of change of {@link _velocity}: the spring's own velocity. */
+  private readonly _velocityRate = new Vector3()
+  /** World position at the previous `update()`, once there was one. */
+  private _lastPosition: Vector3 | null = null
+  private _flameDirection: Vector3 | null = null
+
+  /**
+   * Per-instance transforms and parameters when the fire draws many volumes in
+   * one call; `null` for a single fire.
+   */
+  protected instances: FireInstances | null = null
+
+  /** Camera from the most recent render, used when `update()` is given none. */
+  protected _lastCamera: Camera | null = null
+  /** The shader variant being drawn, with the LOD level applied. */
+  protected variant: FireVariant
+  /** Iterations and octaves as set by the user, before any LOD level. */
+  private readonly _quality: Pick<FireVariant, 'iterations' | 'octaves'>
+  private _lod: readonly FireLodLevel[] | null = null
+  /** Index into {@link _lod} being drawn, or -1 until it was picked. */
+  private _lodLevel = -1
+  private _qualityManager: FireQualityManager | null = null
+  private readonly onQualityChange = () => this.updateVariant()
+  /** World-space wind; the shader gets it in local space. */
+  private readonly _wind = new Vector3()
+  private _colorRamp: ColorRamp | null = null
+  /** Texture baked from color stops; owned (and disposed) by this fire. */
+  private _rampTexture: DataTexture | null = null
+  private _disposed = false
+
+  constructor(geometry: BufferGeometry, material: TMat, variant: FireVariant) {
+    super(geometry, material)
+    this.variant = { ...variant }
+    this._quality = { iterations: variant.iterations, octaves: variant.octaves }
+  }
 
   /** Returns the back-end's uniform bag (GLSL `material.uniforms` or TSL nodes). */
   protected abstract getUniforms(): FireUniformBag
 
+  /** CPU port of the noise function the back-end's shader evaluates. */
+  protected abstract readonly noise: Noise3
+
+  /** The grayscale texture that shapes the flames. */
+  protected abstract getFireTexture(): Texture
+
+  /**
+   * Rebuilds the material's shader for the current {@link variant}. Uniform
+   * objects must be kept as they are so no runtime state is lost.
+   */
+  protected abstract applyVariant(): void
+
+  /**
+   * Points the shader at a new color ramp texture, or back at the single
+   * `color` tint when `null`.
+   */
+  protected abstract applyColorRamp(texture: Texture | null): void
+
   /**
    * Updates the fire animation and matrix uniforms.
    *
    * Call this each frame. In React Three Fiber it runs automatically via
    * `useFrame`.
    *
-   * @param time - Current time in seconds (optional)
+   * When the camera is inside the fire volume the box's front faces are clipped
+   * away, so the fire switches to rendering its back faces and marching from the
+   * camera instead.
+   *
+   * The fire keeps its own timeline: it advances by the clock delta since the
+   * previous call, scaled by {@link timeScale}, and stands still while
+   * {@link paused}. The {@link wind} — sampled from the {@link windField} if
+   * there is one — carries the noise along over the same timeline.
+   *
+   * With {@link lod} levels, the camera's view of the fire picks the level.
+   *
+   * @param time - Current clock time in seconds (optional)
+   * @param camera - Camera the fire will be viewed from (optional, defaults to
+   *   the camera of the most recent render)
    */
-  public update(time?: number): void {
+  public update(time?: number, camera?: Camera): void {
     const uniforms = this.getUniforms()
+    let delta = 0
+    let elapsed = 0
     if (time !== undefined) {
-      this._time = time
-      uniforms.time.value = time
+      const clockDelta = this._resyncClock ? 0 : time - (this._clock ?? 0)
+      this._clock = time
+      this._resyncClock = false
+      if (!this.paused) {
+        delta = clockDelta
+        elapsed = delta * this.timeScale
+        this._time += elapsed
+        this.syncTime()
+      }
     }
     this.updateMatrixWorld()
     uniforms.invModelMatrix.value.copy(this.matrixWorld).invert()
     uniforms.scale.value.copy(this.scale)
+    this.instances?.update(this.matrixWorld, this.count)
+    if (this.windField) {
+      // Sampled on the shared clock, not the fire's own timeline, so every fire
+      // in the field feels the same gust
+      this.getWorldPosition(_worldPosition)
+      this.windField.sample(this._clock ?? 0, _worldPosition, this._wind)
+    }
+    this.syncWind()
+    uniforms.windDrift.value.addScaledVector(uniforms.wind.value, elapsed)
+    this.updateInertia(delta)
+    if (this.jitterAnimated) {
+      uniforms.jitterFrame.value = (uniforms.jitterFrame.value + 1) % JITTER_FRAMES
+    }
+
+    const viewer = camera ?? this._lastCamera
+    if (viewer) {
+      this.material.side = this.containsCamera(viewer) ? BackSide : FrontSide
+      if (this._lod) this.updateLod(this._lod, viewer)
+    }
+  }
+
+  /**
+   * Moves to the LOD level for the fire's current screen size — past the
+   * {@link lodHysteresis} margin, once a level was picked.
+   */
+  private updateLod(levels: readonly FireLodLevel[], camera: Camera): void {
+    const size = this.getScreenSize(camera)
+    let level = this._lodLevel
+    if (level === -1) {
+      level = levels.findIndex((candidate) => size >= candidate.minScreenSize)
+      if (level === -1) level = levels.length - 1
+    } else {
+      const margin = this.lodHysteresis
+      while (level > 0 && size >= levels[level - 1].minScreenSize * (1 + margin)) level--
+      while (level < levels.length - 1 && size < levels[level].minScreenSize * (1 - margin)) {
+        level++
+      }
+    }
+    if (level === this._lodLevel) return
+    this._lodLevel = level
+    this.applyLod()
+  }
+
+  /** Shows the volume or the impostor of the current LOD level, at its quality. */
+  private applyLod(): void {
+    const levels = this._lod ?? []
+    const current = levels[this._lodLevel]
+    for (const level of levels) {
+      if (level.impostor) level.impostor.visible = level === current
+    }
+    this.material.visible = !current?.impostor
+    this.updateVariant()
+  }
+
+  /**
+   * Switches the shader to the iterations and octaves of the current LOD
+   * level, or the fire's own without one, cut down to the quality manager's
+   * tier.
+   */
+  private updateVariant(): void {
+    const level = this._lod?.[this._lodLevel]
+    let iterations = level?.iterations ?? this._quality.iterations
+    let octaves = level?.octaves ?? this._quality.octaves
+    const tier = this._qualityManager?.currentTier
+    if (tier) {
+      iterations = Math.max(1, Math.round(iterations * tier.iterationScale))
+      octaves = Math.max(1, Math.min(octaves, tier.maxOctaves))
+    }
+    if (iterations === this.variant.iterations && octaves === this.variant.octaves) return
+    this.variant.iterations = iterations
+    this.variant.octaves = octaves
+    this.applyVariant()
+  }
+
+  /**
+   * How large the fire appears from `camera`: the height of its bounding
+   * sphere — of its nearest instance, for an instanced fire — as a fraction of
+   * the viewport height. It is `Infinity` with the camera inside the sphere.
+   * Uses the transform from the last {@link update}.
+   *
+   * @param camera - A perspective or orthographic camera
+   */
+  public getScreenSize(camera: Camera): number {
+    _cameraWorld.setFromMatrixPosition(camera.matrixWorld)
+    const instances = this.instances
+    if (!instances) return this.sphereScreenSize(this.matrixWorld, camera)
+
+    let size = 0
+    for (let i = 0; i < this.count; i++) {
+      const matrix = instances.worldMatrixAt(i, this.matrixWorld, _instanceWorld)
+      size = Math.max(size, this.sphereScreenSize(matrix, camera))
+    }
+    return size
+  }
+
+  /** Screen size of the sphere around the unit box placed by `matrixWorld`. */
+  private sphereScreenSize(matrixWorld: Matrix4, camera: Camera): number {
+    const radius = _worldScale.setFromMatrixScale(matrixWorld).length() / 2
+    if (camera instanceof OrthographicCamera) {
+      return (2 * radius * camera.zoom) / (camera.top - camera.bottom)
+    }
+    if (!(camera instanceof PerspectiveCamera)) return Number.POSITIVE_INFINITY
+
+    const distance = _center.setFromMatrixPosition(matrixWorld).distanceTo(_cameraWorld)
+    if (distance <= radius) return Number.POSITIVE_INFINITY
+    const halfHeight = Math.tan((camera.getEffectiveFOV() * Math.PI) / 360)
+    return radius / (distance * halfHeight)
+  }
+
+  /**
+   * Springs the trailing velocity towards the fire's motion over the last
+   * `delta` seconds and leans the flames back along it.
+   */
+  private updateInertia(delta: number): void {
+    const lean = this.getUniforms().lean.value
+    const position = this.getWorldPosition(_worldPosition)
+
+    if (this.inertia === 0) {
+      this._velocity.set(0, 0, 0)
+      this._velocityRate.set(0, 0, 0)
+      lean.set(0, 0, 0)
+    } else {
+      if (this._lastPosition && delta > 0) {
+        _motion.subVectors(position, this._lastPosition).divideScalar(delta)
+        // Fixed substeps keep the spring stable at low frame rates
+        const span = Math.min(delta, MAX_INERTIA_DELTA)
+        const steps = Math.ceil(span / INERTIA_STEP)
+        for (let i = 0; i < steps; i++) {
+          _springForce
+            .subVectors(_motion, this._velocity)
+            .multiplyScalar(this.inertiaStiffness)
+            .addScaledVector(this._velocityRate, -this.inertiaDamping)
+          this._velocityRate.addScaledVector(_springForce, span / steps)
+          this._velocity.addScaledVector(this._velocityRate, span / steps)
+        }
+      }
+      _toLocal.setFromMatrix4(this.getUniforms().invModelMatrix.value)
+      lean.copy(this._velocity).multiplyScalar(-this.inertia).applyMatrix3(_toLocal)
+    }
+
+    this._lastPosition = (this._lastPosition ?? new Vector3()).copy(position)
+  }
+
+  /**
+   * Composes the local matrix as usual, then — with a {@link flameDirection} —
+   * turns it so the fire's world +Y points along that direction. The turn is
+   * the smallest one, so the fire keeps its heading around the flame axis.
+   * Children follow the upright volume.
+   */
+  public updateMatrix(): void {
+    super.updateMatrix()
+    // Also skips a direction zeroed in place, which can't be normalized
+    if (!this._flameDirection || this._flameDirection.lengthSq() === 0) return
+
+    _world.copy(this.matrix)
+    if (this.parent) _world.premultiply(this.parent.matrixWorld)
+    _world.decompose(_worldPosition, _worldRotation, _worldScale)
+
+    _flameAxis.set(0, 1, 0).applyQuaternion(_worldRotation)
+    _up.copy(this._flameDirection).normalize()
+    _worldRotation.premultiply(_alignment.setFromUnitVectors(_flameAxis, _up))
+    _world.compose(_worldPosition, _worldRotation, _worldScale)
+
+    if (this.parent) _world.premultiply(_parentInverse.copy(this.parent.matrixWorld).invert())
+    this.matrix.copy(_world)
+  }
+
+  /**
+   * Records the camera being rendered so a later `update()` without an explicit
+   * camera can still detect whether it is inside the volume. Called by three.js
+   * right before drawing.
+   */
+  public onBeforeRender(_renderer: WebGLRenderer, _scene: Scene, camera: Camera): void {
+    this._lastCamera = camera
+  }
+
+  /**
+   * Whether `camera` is inside the unit box — of any instance, for an instanced
+   * fire — or close enough that its near plane clips the box's front faces.
+   */
+  protected containsCamera(camera: Camera): boolean {
+    const near =
+      camera instanceof PerspectiveCamera || camera instanceof OrthographicCamera ? camera.near : 0
+    _cameraWorld.setFromMatrixPosition(camera.matrixWorld)
+
+    const instances = this.instances
+    if (!instances) {
+      this.getWorldScale(_worldScale)
+      return boxContains(_cameraWorld, this.getUniforms().invModelMatrix.value, _worldScale, near)
+    }
+    for (let i = 0; i < this.count; i++) {
+      _worldScale.setFromMatrixScale(instances.worldMatrixAt(i, this.matrixWorld, _instanceWorld))
+      if (boxContains(_cameraWorld, instances.inverseAt(i, _inverse), _worldScale, near))
+        return true
+    }
+    return false
+  }
+
+  /**
+   * Evaluates the shader's flame turbulence on the CPU, at the fire's current
+   * animation time, seed and noise parameters.
+   *
+   * Higher values lift the flame at that point, so the fire there looks
+   * thinner and taller.
+   *
+   * @param localPoint - Point in the fire's local space (the unit box)
+   */
+  public sampleTurbulence(localPoint: Vector3): number {
+    return this.turbulenceAt(
+      localPoint.x * 2,
+      localPoint.y + 0.5,
+      localPoint.z * 2,
+      this.getUniforms().time.value,
+      this.getUniforms().seed.value,
+    )
+  }
+
+  /**
+   * How much fire there is at a world-space point: a CPU port of the shaders'
+   * `samplerFire`, with the same noise, `invModelMatrix`, `noiseScale`, seed
+   * and fire texture. Returns 0 outside the flames and up to 1 in their
+   * densest part.
+   *
+   * Uses the transform from the last {@link update}. Browser images are read
+   * back once per texture version; until the texture has loaded the density
+   * is 0. The densities of overlapping instances add up, as they do on screen.
+   *
+   * @param worldPoint - Point in world space
+   * @param time - Animation time in seconds (default: the current {@link time});
+   *   {@link timeOffset} is added as for rendering
+   *
+   * @example
+   * ```ts
+   * if (fire.sampleDensity(player.position) > 0.2) player.burn()
+   * ```
+   */
+  public sampleDensity(worldPoint: Vector3, time?: number): number {
+    const uniforms = this.getUniforms()
+    const shaderTime = time === undefined ? uniforms.time.value : time + this._timeOffset
+    const seed = uniforms.seed.value
+    const magnitude = uniforms.magnitude.value
+
+    const instances = this.instances
+    if (!instances) {
+      _local.copy(worldPoint).applyMatrix4(uniforms.invModelMatrix.value)
+      return this.densityAt(_local, shaderTime, seed, magnitude)
+    }
+    let density = 0
+    for (let i = 0; i < this.count; i++) {
+      _local.copy(worldPoint).applyMatrix4(instances.inverseAt(i, _inverse))
+      density += this.densityAt(
+        _local,
+        shaderTime + instances.getTimeOffsetAt(i),
+        seed + instances.getSeedAt(i),
+        magnitude * instances.getMagnitudeAt(i),
+      )
+    }
+    return density
+  }
+
+  /**
+   * Hits the bounding box like any mesh, or — with a {@link raycastThreshold} —
+   * marches the ray through the volume and reports the first point where the
+   * flames are at least that dense, as a {@link FireIntersection}. An
+   * instanced fire reports a hit per instance, with its `instanceId`.
+   */
+  public raycast(raycaster: Raycaster, intersects: Intersection[]): void {
+    const threshold = this.raycastThreshold
+    const uniforms = this.getUniforms()
+    const time = uniforms.time.value
+    const seed = uniforms.seed.value
+    const magnitude = uniforms.magnitude.value
+
+    const instances = this.instances
+    if (!instances) {
+      if (threshold === null) {
+        super.raycast(raycaster, intersects)
+      } else {
+        this.marchRay(raycaster, this.matrixWorld, threshold, time, seed, magnitude, intersects)
+      }
+      return
+    }
+
+    for (let i = 0; i < this.count; i++) {
+      const first = intersects.length
+      instances.worldMatrixAt(i, this.matrixWorld, _instanceWorld)
+      if (threshold === null) {
+        _instanceMesh.geometry = this.geometry
+        _instanceMesh.material = this.material
+        _instanceMesh.matrixWorld.copy(_instanceWorld)
+        _instanceMesh.raycast(raycaster, intersects)
+      } else {
+        this.marchRay(
+          raycaster,
+          _instanceWorld,
+          threshold,
+          time + instances.getTimeOffsetAt(i),
+          seed + instances.getSeedAt(i),
+          magnitude * instances.getMagnitudeAt(i),
+          intersects,
+        )
+      }
+      for (let hit = first; hit < intersects.length; hit++) {
+        intersects[hit].instanceId = i
+        intersects[hit].object = this
+      }
+    }
+  }
+
+  /**
+   * Marches a ray through the unit box placed by `matrixWorld` and pushes the
+   * first sample at least `threshold` dense.
+   */
+  private marchRay(
+    raycaster: Raycaster,
+    matrixWorld: Matrix4,
+    threshold: number,
+    shaderTime: number,
+    seed: number,
+    magnitude: number,
+    intersects: Intersection[],
+  ): void {
+    _inverse.copy(matrixWorld).invert()
+    _rayOrigin.copy(raycaster.ray.origin).applyMatrix4(_inverse)
+    _rayDirection.copy(raycaster.ray.direction).transformDirection(_inverse)
+
+    // Clip the ray to the unit box (slab test); t is in local units
+    let near = 0
+    let far = Number.POSITIVE_INFINITY
+    for (let axis = 0; axis < 3; axis++) {
+      const origin = _rayOrigin.getComponent(axis)
+      const direction = _rayDirection.getComponent(axis)
+      if (direction === 0) {
+        if (Math.abs(origin) > 0.5) return
+        continue
+      }
+      const t0 = (-0.5 - origin) / direction
+      const t1 = (0.5 - origin) / direction
+      near = Math.max(near, Math.min(t0, t1))
+      far = Math.min(far, Math.max(t0, t1))
+    }
+    if (near >= far) return
+
+    const steps = Math.ceil((far - near) / RAYCAST_STEP)
+    const step = (far - near) / steps
+    for (let i = 0; i < steps; i++) {
+      _local
+        .copy(_rayDirection)
+        .multiplyScalar(near + (i + 0.5) * step)
+        .add(_rayOrigin)
+      _point.copy(_local).applyMatrix4(matrixWorld)
+      const distance = raycaster.ray.origin.distanceTo(_point)
+      if (distance < raycaster.near) continue
+      if (distance > raycaster.far) return
+
+      const density = this.densityAt(_local, shaderTime, seed, magnitude)
+      if (density >= threshold) {
+        const hit: FireIntersection = { distance, point: _point.clone(), object: this, density }
+        intersects.push(hit)
+        return
+      }
+    }
+  }
+
+  /** The shaders' `samplerFire` at a fire-local position, for one seed and magnitude. */
+  private densityAt(local: Vector3, shaderTime: number, seed: number, magnitude: number): number {
+    // Same mapping as the shaders' ray march: a vertical cylinder over the box,
+    // leaned over by the wind and the fire's motion towards its tip
+    const uniforms = this.getUniforms()
+    const wind = uniforms.wind.value
+    const lean = uniforms.lean.value
+    const y = local.y + 0.5
+    const x = (local.x - (wind.x + lean.x) * y * y) * 2
+    const z = (local.z - (wind.z + lean.z) * y * y) * 2
+    const radius = Math.sqrt(x * x + z * z)
+    if (radius <= 0 || radius >= 1 || y <= 0 || y >= 1) return 0
+
+    const lifted = y + Math.sqrt(y) * magnitude * this.turbulenceAt(x, y, z, shaderTime, seed)
+    if (lifted <= 0 || lifted >= 1) return 0
+
+    return sampleTextureRed(this.getFireTexture(), radius, lifted)
+  }
+
+  /**
+   * The shaders' `turbulence()` at an unscaled flame-space position. The wind
+   * drift is extrapolated when `shaderTime` is not the current time.
+   */
+  private turbulenceAt(x: number, y: number, z: number, shaderTime: number, seed: number): number {
+    const uniforms = this.getUniforms()
+    const noiseScale = uniforms.noiseScale.value
+    const elapsed = shaderTime - uniforms.time.value
+    const drift = _drift
+      .copy(uniforms.windDrift.value)
+      .addScaledVector(uniforms.wind.value, elapsed)
+    const animatedY = y - (seed + shaderTime) * noiseScale.w - drift.y
+
+    return turbulence(
+      this.noise,
+      (x - drift.x * 2) * noiseScale.x,
+      animatedY * noiseScale.y,
+      (z - drift.z * 2) * noiseScale.z,
+      this.variant.octaves,
+      uniforms.lacunarity.value,
+      uniforms.gain.value,
+    )
   }
 
   /**
@@ -57,22 +896,324 @@ export abstract class AbstractFire<TMat extends Material> extends Mesh {
    *
    * Call this when removing the fire from the scene to avoid leaking GPU
    * memory. In React Three Fiber it is invoked automatically on unmount. The
-   * texture passed in is **not** disposed — its lifecycle is owned by the caller
-   * (or the R3F loader cache).
+   * unit box geometry and the compiled shader are shared by all fires, so they
+   * are only freed once the last fire using them is disposed. The texture
+   * passed in is **not** disposed — its lifecycle is owned by the caller (or
+   * the R3F loader cache).
    */
   public dispose(): void {
-    this.geometry?.dispose()
+    // Only count the shared geometry back in once
+    if (this._disposed) return
+    this._disposed = true
+    // Leave the manager without switching the shader once more
+    const manager = this._qualityManager
+    this._qualityManager = null
+    manager?.removeEventListener('change', this.onQualityChange)
+    manager?.unregister(this)
+    if (this.geometry) releaseFireGeometry(this.geometry)
     this.material?.dispose()
+    this._rampTexture?.dispose()
+  }
+
+  /**
+   * Sets the given options through the fire's setters, leaving those that are
+   * `undefined` as they are. The color ramp goes first and the LOD hysteresis
+   * before the levels, so the shader is switched as few times as possible.
+   *
+   * @param options - Options to change
+   *
+   * @example
+   * ```ts
+   * fire.applyOptions({ magnitude: 1.6, wind: [0.4, 0, 0] })
+   * ```
+   */
+  public applyOptions(options: FireOptions): void {
+    if (options.colorRamp !== undefined) this.colorRamp = options.colorRamp
+    if (options.color !== undefined) this.fireColor = options.color
+    if (options.blackbody !== undefined) this.blackbody = options.blackbody
+    if (options.minTemperature !== undefined) this.minTemperature = options.minTemperature
+    if (options.maxTemperature !== undefined) this.maxTemperature = options.maxTemperature
+    if (options.iterations !== undefined) this.iterations = options.iterations
+    if (options.octaves !== undefined) this.octaves = options.octaves
+    if (options.noiseScale !== undefined) this.noiseScale = options.noiseScale
+    if (options.magnitude !== undefined) this.magnitude = options.magnitude
+    if (options.lacunarity !== undefined) this.lacunarity = options.lacunarity
+    if (options.gain !== undefined) this.gain = options.gain
+    if (options.wind !== undefined) this.wind = options.wind
+    if (options.windField !== undefined) this.windField = options.windField
+    if (options.inertia !== undefined) this.inertia = options.inertia
+    if (options.inertiaStiffness !== undefined) this.inertiaStiffness = options.inertiaStiffness
+    if (options.inertiaDamping !== undefined) this.inertiaDamping = options.inertiaDamping
+    if (options.flameDirection !== undefined) this.flameDirection = options.flameDirection
+    if (options.depthSoftness !== undefined) this.depthSoftness = options.depthSoftness
+    if (options.paused !== undefined) this.paused = options.paused
+    if (options.timeScale !== undefined) this.timeScale = options.timeScale
+    if (options.timeOffset !== undefined) this.timeOffset = options.timeOffset
+    if (options.raycastThreshold !== undefined) this.raycastThreshold = options.raycastThreshold
+    if (options.lodHysteresis !== undefined) this.lodHysteresis = options.lodHysteresis
+    if (options.lod !== undefined) this.lod = options.lod
+    if (options.qualityManager !== undefined) this.qualityManager = options.qualityManager
+    if (options.densityCutoff !== undefined) this.densityCutoff = options.densityCutoff
+    if (options.jitter !== undefined) this.jitter = options.jitter
+    if (options.jitterAnimated !== undefined) this.jitterAnimated = options.jitterAnimated
+    if (options.seed !== undefined) this.seed = options.seed
+  }
+
+  /**
+   * The fire's current options, copied so that later changes to the fire
+   * don't show in them; {@link applyOptions} takes them back.
+   */
+  public getOptions(): Required<FireOptions> {
+    return {
+      color: this.fireColor.clone(),
+      colorRamp: this.colorRamp,
+      blackbody: this.blackbody,
+      minTemperature: this.minTemperature,
+      maxTemperature: this.maxTemperature,
+      iterations: this.iterations,
+      octaves: this.octaves,
+      noiseScale: this.noiseScale.toArray() as [number, number, number, number],
+      magnitude: this.magnitude,
+      lacunarity: this.lacunarity,
+      gain: this.gain,
+      wind: this.wind.toArray() as [number, number, number],
+      windField: this.windField,
+      inertia: this.inertia,
+      inertiaStiffness: this.inertiaStiffness,
+      inertiaDamping: this.inertiaDamping,
+      flameDirection: (this.flameDirection?.toArray() as [number, number, number]) ?? null,
+      seed: this.seed,
+      depthSoftness: this.depthSoftness,
+      paused: this.paused,
+      timeScale: this.timeScale,
+      timeOffset: this.timeOffset,
+      raycastThreshold: this.raycastThreshold,
+      lod: this.lod,
+      lodHysteresis: this.lodHysteresis,
+      qualityManager: this.qualityManager,
+      densityCutoff: this.densityCutoff,
+      jitter: this.jitter,
+      jitterAnimated: this.jitterAnimated,
+    }
+  }
+
+  /**
+   * Ray marching iterations. Higher = better quality, lower performance.
+   * Changing it recompiles the shader (once per distinct value); every other
+   * parameter, the seed and the time are kept. While {@link lod} levels are
+   * set, the current level's iterations are drawn instead; a
+   * {@link qualityManager} scales them down further.
+   * Default: 20
+   */
+  public get iterations(): number {
+    return this._quality.iterations
+  }
+
+  public set iterations(value: number) {
+    this._quality.iterations = value
+    this.updateVariant()
+  }
+
+  /**
+   * Turbulence noise octaves. Changing it recompiles the shader (once per
+   * distinct value); every other parameter, the seed and the time are kept.
+   * While {@link lod} levels are set, the current level's octaves are drawn
+   * instead; a {@link qualityManager} caps them further.
+   * Default: 3
+   */
+  public get octaves(): number {
+    return this._quality.octaves
+  }
+
+  public set octaves(value: number) {
+    this._quality.octaves = value
+    this.updateVariant()
+  }
+
+  /**
+   * Levels of detail picked from the fire's {@link getScreenSize} on each
+   * {@link update}: the first level whose `minScreenSize` the fire reaches,
+   * or the last one when it is smaller still. Each level draws with its own
+   * iterations and octaves — compiling one shader per distinct pair — or swaps
+   * the volume for a cheaper impostor. `null` draws with the fire's own
+   * {@link iterations} and {@link octaves}.
+   * Default: null
+   *
+   * @example
+   * ```ts
+   * fire.lod = [
+   *   { minScreenSize: 0.3, iterations: 20, octaves: 3 },
+   *   { minScreenSize: 0.1, iterations: 12, octaves: 2 },
+   *   { minScreenSize: 0, iterations: 6, octaves: 1, impostor: sprite },
+   * ]
+   * ```
+   */
+  public get lod(): readonly FireLodLevel[] | null {
+    return this._lod
+  }
+
+  public set lod(value: readonly FireLodLevel[] | null) {
+    // Copied so later mutations by the caller are detected, largest first
+    const levels = value?.length
+      ? value.map((level) => ({ ...level })).sort((a, b) => b.minScreenSize - a.minScreenSize)
+      : null
+    if (isSameLod(levels, this._lod)) return
+    for (const level of this._lod ?? []) {
+      if (level.impostor) level.impostor.visible = false
+    }
+    this._lod = levels
+    // The next update picks a level afresh
+    this._lodLevel = -1
+    this.applyLod()
+  }
+
+  /** Index of the {@link lod} level being drawn, or -1 without one. */
+  public get lodLevel(): number {
+    return this._lodLevel
+  }
+
+  /**
+   * Quality manager whose tier cuts down the fire's iterations and octaves to
+   * hold the frame rate, or `null` to draw with them as set. Setting it
+   * registers the fire with the manager; disposing the fire unregisters it.
+   * Default: null
+   */
+  public get qualityManager(): FireQualityManager | null {
+    return this._qualityManager
+  }
+
+  public set qualityManager(value: FireQualityManager | null) {
+    if (value === this._qualityManager) return
+    const previous = this._qualityManager
+    this._qualityManager = value
+    previous?.removeEventListener('change', this.onQualityChange)
+    previous?.unregister(this)
+    value?.addEventListener('change', this.onQualityChange)
+    value?.register(this)
+    this.updateVariant()
+  }
+
+  /**
+   * Colors the fire like a blackbody radiator, from {@link minTemperature} at
+   * its thinnest to {@link maxTemperature} at its densest, instead of with
+   * {@link fireColor}. A {@link colorRamp} takes precedence. Changing it
+   * recompiles the shader.
+   * Default: false
+   */
+  public get blackbody(): boolean {
+    return this.variant.blackbody
+  }
+
+  public set blackbody(value: boolean) {
+    if (value === this.variant.blackbody) return
+    this.variant.blackbody = value
+    this.applyVariant()
+  }
+
+  /**
+   * Accumulated density at which each ray stops marching, or `null` to always
+   * take every sample. Rays through the dense core then skip the samples
+   * behind it, which barely show through; at 1 the fire's opacity is
+   * unchanged, and a higher cutoff keeps more of the core's brightness.
+   * Switching between `null` and a number recompiles the shader; changing the
+   * number does not.
+   * Default: null
+   */
+  public get densityCutoff(): number | null {
+    return this.variant.earlyExit ? this.getUniforms().densityCutoff.value : null
+  }
+
+  public set densityCutoff(value: number | null) {
+    if (value !== null) this.getUniforms().densityCutoff.value = value
+    const earlyExit = value !== null
+    if (earlyExit === this.variant.earlyExit) return
+    this.variant.earlyExit = earlyExit
+    this.applyVariant()
+  }
+
+  /**
+   * Offsets where each pixel samples along its ray by a per-pixel noise value.
+   * With few {@link iterations} every pixel otherwise samples the same slices
+   * of the volume, which show as bands; jittered, they blend into fine grain.
+   * Changing it recompiles the shader.
+   * Default: false
+   */
+  public get jitter(): boolean {
+    return this.variant.jitter
+  }
+
+  public set jitter(value: boolean) {
+    if (value === this.variant.jitter) return
+    this.variant.jitter = value
+    this.applyVariant()
+  }
+
+  /** Writes the world-space wind to the shader in the fire's local space. */
+  protected syncWind(): void {
+    const uniforms = this.getUniforms()
+    _toLocal.setFromMatrix4(uniforms.invModelMatrix.value)
+    uniforms.wind.value.copy(this._wind).applyMatrix3(_toLocal)
+  }
+
+  /** Writes the fire's timeline position plus its offset to the shader. */
+  protected syncTime(): void {
+    this.getUniforms().time.value = this._time + this._timeOffset
   }
 
-  /** Current animation time in seconds. */
+  /** Current animation time in seconds. Setting it scrubs the animation. */
   public get time(): number {
     return this._time
   }
 
   public set time(value: number) {
     this._time = value
-    this.getUniforms().time.value = value
+    this.syncTime()
+  }
+
+  /**
+   * Starts the fire over as if it had just been created: its timeline is back
+   * at 0, the next `update(time)` picks up the clock afresh, and the motion,
+   * wind drift and trailing lean of its previous life are forgotten — so a
+   * fire moved far away, e.g. when reused from a pool, doesn't lean as if it
+   * had flown there. All parameters are kept.
+   */
+  public restart(): void {
+    this._time = 0
+    this._resyncClock = true
+    this.syncTime()
+    const uniforms = this.getUniforms()
+    uniforms.windDrift.value.set(0, 0, 0)
+    uniforms.lean.value.set(0, 0, 0)
+    this._velocity.set(0, 0, 0)
+    this._velocityRate.set(0, 0, 0)
+    this._lastPosition = null
+  }
+
+  /**
+   * Constant shift in seconds added to the animation time, e.g. to desync
+   * fires that share a clock.
+   * Default: 0
+   */
+  public get timeOffset(): number {
+    return this._timeOffset
+  }
+
+  public set timeOffset(value: number) {
+    this._timeOffset = value
+    this.syncTime()
+  }
+
+  /**
+   * Noise seed. Fires with the same seed, time and parameters render
+   * identically, on either backend.
+   * Default: random in [0, 19.19)
+   */
+  public get seed(): number {
+    return this.getUniforms().seed.value
+  }
+
+  public set seed(value: number) {
+    this.getUniforms().seed.value = value
   }
 
   /**
@@ -93,6 +1234,127 @@ export abstract class AbstractFire<TMat extends Material> extends Mesh {
     this.getUniforms().color.value = color instanceof Color ? color : new Color(color)
   }
 
+  /**
+   * Color gradient applied by accumulated density, replacing {@link fireColor}:
+   * sparse edges take the start of the ramp, the dense core its end. `null`
+   * restores the single tint. Switching between a ramp and `null` recompiles
+   * the shader; swapping one ramp for another does not. An array without
+   * stops throws, keeping the current ramp.
+   * Default: null
+   *
+   * @example
+   * ```ts
+   * fire.colorRamp = [[0, 0x440000], [0.5, 0xff4400], [1, 0xffffcc]]
+   * ```
+   */
+  public get colorRamp(): ColorRamp | null {
+    return this._colorRamp
+  }
+
+  public set colorRamp(value: ColorRamp | null) {
+    if (isSameColorRamp(value, this._colorRamp)) return
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) throw new Error('colorRamp: at least one color stop is required')
+      // Keep a copy of the stops so later mutations by the caller are detected.
+      // Both are made before anything is assigned, so stops that can't be
+      // baked leave the fire with the ramp it had
+      const stops = value.map(([offset, color]): [number, Color] => [offset, new Color(color)])
+      this._rampTexture = createColorRampTexture(stops, this._rampTexture ?? undefined)
+      this._colorRamp = stops
+      this.applyColorRamp(this._rampTexture)
+    } else {
+      this._colorRamp = value
+      this.applyColorRamp(value)
+      this._rampTexture?.dispose()
+      this._rampTexture = null
+    }
+  }
+
+  /**
+   * Wind in world space, in world units per second. It carries the noise
+   * along at that speed and leans the flames over, shifting their tip sideways
+   * by the same number of world units. The fire's rotation and scale are
+   * applied on each {@link update}, so changes made to the vector in place
+   * show from the next `update()`.
+   * Default: [0, 0, 0]
+   *
+   * @example
+   * ```ts
+   * fire.wind = [0.4, 0, 0] // a breeze along +X
+   * ```
+   */
+  public get wind(): Vector3 {
+    return this._wind
+  }
+
+  public set wind(value: Vector3 | [number, number, number]) {
+    if (Array.isArray(value)) {
+      this._wind.fromArray(value)
+    } else {
+      this._wind.copy(value)
+    }
+    this.syncWind()
+  }
+
+  /**
+   * World direction the flames rise along whatever the fire's rotation, e.g.
+   * `[0, 1, 0]` for a torch on a tilted bracket or a tumbling object. The
+   * volume still follows the fire's position and scale; `null` lets it rotate
+   * with the fire, flames rising along its local +Y, as does a zero-length
+   * direction.
+   * Default: null
+   *
+   * @example
+   * ```ts
+   * fire.flameDirection = [0, 1, 0] // always burn upwards
+   * ```
+   */
+  public get flameDirection(): Vector3 | null {
+    return this._flameDirection
+  }
+
+  public set flameDirection(value: Vector3 | [number, number, number] | null) {
+    if (value === null) {
+      this._flameDirection = null
+      return
+    }
+    if (Array.isArray(value)) {
+      _flameAxis.fromArray(value)
+    } else {
+      _flameAxis.copy(value)
+    }
+    // A zero-length vector has no direction to turn the flames to
+    if (_flameAxis.lengthSq() === 0) {
+      this._flameDirection = null
+    } else {
+      this._flameDirection = (this._flameDirection ?? new Vector3()).copy(_flameAxis)
+    }
+  }
+
+  /**
+   * Noise scaling parameters `[x, y, z, time]`.
+   * Default: [1, 2, 1, 0.3]
+   *
+   * @example
+   * ```ts
+   * fire.noiseScale = [1, 3, 1, 0.5]
+   * fire.noiseScale.w = 0.6
+   * ```
+   */
+  public get noiseScale(): Vector4 {
+    return this.getUniforms().noiseScale.value
+  }
+
+  public set noiseScale(value: Vector4 | [number, number, number, number]) {
+    const noiseScale = this.getUniforms().noiseScale.value
+    if (Array.isArray(value)) {
+      noiseScale.fromArray(value)
+    } else {
+      noiseScale.copy(value)
+    }
+  }
+
   /**
    * Fire shape intensity. Higher values create more dramatic shapes.
    * Range: 0.5 - 3.0, Default: 1.3
@@ -128,4 +1390,43 @@ export abstract class AbstractFire<TMat extends Material> extends Mesh {
   public set gain(value: number) {
     this.getUniforms().gain.value = value
   }
+
+  /**
+   * Distance in world units over which the fire fades out in front of scene
+   * geometry. Only used when the fire was created with a `depthTexture`.
+   * Default: 0.1
+   */
+  public get depthSoftness(): number {
+    return this.getUniforms().depthSoftness.value
+  }
+
+  public set depthSoftness(value: number) {
+    this.getUniforms().depthSoftness.value = value
+  }
+
+  /**
+   * Blackbody temperature in Kelvin of the thinnest parts of the fire. Only
+   * used in {@link blackbody} mode; clamped to 1667 K and above.
+   * Default: 1800
+   */
+  public get minTemperature(): number {
+    return this.getUniforms().minTemperature.value
+  }
+
+  public set minTemperature(value: number) {
+    this.getUniforms().minTemperature.value = value
+  }
+
+  /**
+   * Blackbody temperature in Kelvin of the densest core of the fire. Only used
+   * in {@link blackbody} mode; clamped to 25000 K and below.
+   * Default: 4000
+   */
+  public get maxTemperature(): number {
+    return this.getUniforms().maxTemperature.value
+  }
+
+  public set maxTemperature(value: number) {
+    this.getUniforms().maxTemperature.value = value
+  }
 }
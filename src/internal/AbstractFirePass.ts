@@ -0,0 +1,213 @@
+import {
+  Color,
+  Vector2,
+  type Camera,
+  type DepthTexture,
+  type Material,
+  type Object3D,
+  type RenderTarget,
+  type Scene,
+} from 'three'
+import { AbstractFire } from './AbstractFire'
+
+/**
+ * The renderer calls a fire pass makes, shared by `WebGLRenderer` and
+ * `WebGPURenderer`. Their typings differ in the render targets they take, so
+ * the passes reach both through this view.
+ */
+interface FirePassRenderer {
+  autoClear: boolean
+  getRenderTarget(): RenderTarget | null
+  setRenderTarget(target: RenderTarget | null): void
+  getDrawingBufferSize(target: Vector2): Vector2
+  getClearColor(target: Color): Color
+  getClearAlpha(): number
+  setClearColor(color: Color, alpha?: number): void
+  clear(): void
+  render(scene: Object3D, camera: Camera): void
+}
+
+/**
+ * Options for creating a fire offscreen pass
+ */
+export interface FireOffscreenPassOptions {
+  /** Fraction of the output resolution the fires are drawn at (default: 0.5) */
+  resolutionScale?: number
+  /**
+   * Scene depth texture; when set, the fires are upsampled without bleeding
+   * across depth edges (default: none — plain bilinear upsampling)
+   */
+  depthTexture?: DepthTexture | null
+  /**
+   * Difference in view depth, as a fraction of the pixel's own, past which a
+   * pixel counts as lying on a depth edge (default: 0.1)
+   */
+  depthThreshold?: number
+}
+
+/**
+ * Layer the fires are moved to while they are drawn offscreen, so that one
+ * render draws them sorted and nothing else.
+ */
+const FIRE_LAYER = 31
+
+const _outputSize = new Vector2()
+const _clearColor = new Color()
+const _transparent = new Color(0, 0, 0)
+
+/**
+ * Renders the fires of a scene into a reduced-resolution target and blends the
+ * result back over the scene. Shared by the GLSL and TSL passes, which supply
+ * the target and the compositing draw.
+ */
+export abstract class AbstractFirePass<TRenderer, TTarget extends RenderTarget> {
+  /** Fraction of the output resolution the fires are drawn at. */
+  public resolutionScale: number
+  /** Relative view-depth difference past which a pixel lies on a depth edge. */
+  public depthThreshold: number
+  /** Target the fires are drawn into, resized to the output on every render. */
+  public readonly target: TTarget
+
+  private _depthTexture: DepthTexture | null = null
+  /** The fires being drawn, found by the last render. */
+  private readonly _fires: AbstractFire<Material>[] = []
+
+  /**
+   * Subclasses set {@link depthTexture} once their compositing material
+   * exists.
+   */
+  constructor(
+    target: TTarget,
+    { resolutionScale = 0.5, depthThreshold = 0.1 }: FireOffscreenPassOptions,
+  ) {
+    this.target = target
+    this.resolutionScale = resolutionScale
+    this.depthThreshold = depthThreshold
+  }
+
+  /**
+   * Scene depth texture the upsampling keeps the fires from bleeding across
+   * edges with; `null` to upsample bilinearly. Switching between a texture and
+   * none recompiles the compositing shader.
+   */
+  public get depthTexture(): DepthTexture | null {
+    return this._depthTexture
+  }
+
+  public set depthTexture(value: DepthTexture | null) {
+    if (value === this._depthTexture) return
+    this._depthTexture = value
+    this.applyDepthTexture(value)
+  }
+
+  /**
+   * Draws the scene with its fires at reduced resolution, in place of
+   * `renderer.render(scene, camera)`.
+   *
+   * @param renderer - Renderer to draw with, into its current render target
+   * @param scene - Scene to draw
+   * @param camera - Camera to draw from
+   */
+  public render(renderer: TRenderer, scene: Scene, camera: Camera): void {
+    const fires = this.collectFires(scene, camera)
+    for (const fire of fires) fire.material.visible = false
+    ;(renderer as FirePassRenderer).render(scene, camera)
+    for (const fire of fires) fire.material.visible = true
+
+    this.drawFires(renderer, scene, camera)
+  }
+
+  /**
+   * Draws only the fires of a scene at reduced resolution and blends them over
+   * whatever the current render target holds — for render loops that draw the
+   * rest of the scene themselves, with the fires hidden.
+   *
+   * @param renderer - Renderer to draw with, into its current render target
+   * @param scene - Scene whose fires to draw
+   * @param camera - Camera to draw from
+   */
+  public renderFires(renderer: TRenderer, scene: Scene, camera: Camera): void {
+    this.collectFires(scene, camera)
+    this.drawFires(renderer, scene, camera)
+  }
+
+  /** Releases the target and the compositing material. */
+  public dispose(): void {
+    this.target.dispose()
+    this.disposeComposite()
+  }
+
+  /** Rebuilds the compositing shader with or without depth-aware upsampling. */
+  protected abstract applyDepthTexture(texture: DepthTexture | null): void
+
+  /** Blends the target over the current render target. */
+  protected abstract composite(renderer: TRenderer, camera: Camera): void
+
+  protected abstract disposeComposite(): void
+
+  /** Finds the fires `camera` would draw: visible, on its layers and not swapped for an impostor. */
+  private collectFires(scene: Scene, camera: Camera): AbstractFire<Material>[] {
+    const fires = this._fires
+    fires.length = 0
+    scene.traverseVisible((object) => {
+      if (
+        object instanceof AbstractFire &&
+        object.material.visible &&
+        object.layers.test(camera.layers)
+      ) {
+        fires.push(object)
+      }
+    })
+    return fires
+  }
+
+  private drawFires(passRenderer: TRenderer, scene: Scene, camera: Camera): void {
+    const fires = this._fires
+    if (fires.length === 0) return
+
+    const renderer = passRenderer as FirePassRenderer
+    const output = renderer.getRenderTarget()
+    if (output) {
+      _outputSize.set(output.width, output.height)
+    } else {
+      renderer.getDrawingBufferSize(_outputSize)
+    }
+    const scale = this.resolutionScale
+    this.target.setSize(
+      Math.max(1, Math.round(_outputSize.x * scale)),
+      Math.max(1, Math.round(_outputSize.y * scale)),
+    )
+
+    const autoClear = renderer.autoClear
+    const clearAlpha = renderer.getClearAlpha()
+    renderer.getClearColor(_clearColor)
+    const background = scene.background
+    const cameraLayers = camera.layers.mask
+    const fireLayers = fires.map((fire) => fire.layers.mask)
+
+    // Draw the fires alone, over transparent black: the target then holds
+    // their color premultiplied by their coverage
+    renderer.setRenderTarget(this.target)
+    renderer.setClearColor(_transparent, 0)
+    renderer.clear()
+    renderer.autoClear = false
+    scene.background = null
+    camera.layers.set(FIRE_LAYER)
+    for (const fire of fires) fire.layers.set(FIRE_LAYER)
+    try {
+      renderer.render(scene, camera)
+      // Blended over the output without clearing it first
+      renderer.setRenderTarget(output)
+      this.composite(passRenderer, camera)
+    } finally {
+      fires.forEach((fire, i) => {
+        fire.layers.mask = fireLayers[i]
+      })
+      camera.layers.mask = cameraLayers
+      scene.background = background
+      renderer.setRenderTarget(output)
+      renderer.autoClear = autoClear
+      renderer.setClearColor(_clearColor, clearAlpha)
+    }
+  }
+}
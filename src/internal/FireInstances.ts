@@ -0,0 +1,361 @@
+import {
+  Color,
+  InstancedBufferAttribute,
+  InstancedInterleavedBuffer,
+  InterleavedBufferAttribute,
+  Matrix4,
+  Box3,
+  BoxGeometry,
+  Sphere,
+  type BufferGeometry,
+  type DataTexture,
+  type EventDispatcher,
+  type Material,
+} from 'three'
+import { randomSeed, type AbstractFire } from './AbstractFire'
+import { releaseFireGeometry } from './sharedResources'
+
+/**
+ * Geometry attributes the instanced fire shaders read: the columns of each
+ * instance's inverse world matrix, and its `[seed, magnitude, timeOffset]`.
+ */
+export const INSTANCE_INV_MODEL_MATRIX = [
+  'instanceInvModelMatrix0',
+  'instanceInvModelMatrix1',
+  'instanceInvModelMatrix2',
+  'instanceInvModelMatrix3',
+] as const
+export const INSTANCE_FIRE_PARAMS = 'instanceFireParams'
+
+const SEED = 0
+const MAGNITUDE = 1
+const TIME_OFFSET = 2
+
+const _matrix = new Matrix4()
+const _color = new Color()
+const _rgb: number[] = []
+const _box = new Box3()
+const _sphere = new Sphere()
+
+/**
+ * Writes `values` into `array` from `offset` on, leaving entries that already
+ * hold them alone.
+ *
+ * @returns Whether any entry changed, so the buffer needs uploading again
+ */
+const write = (array: Float32Array, offset: number, values: ArrayLike<number>): boolean => {
+  let changed = false
+  for (let i = 0; i < values.length; i++) {
+    const value = Math.fround(values[i])
+    if (array[offset + i] !== value) {
+      array[offset + i] = value
+      changed = true
+    }
+  }
+  return changed
+}
+
+/**
+ * Per-instance state of an instanced fire, shared by the GLSL and TSL
+ * back-ends.
+ *
+ * `matrices` and `colors` are three.js's own `instanceMatrix`/`instanceColor`;
+ * the inverse world matrices and fire parameters are extra instanced
+ * attributes on the fire's geometry, which both shaders read by name.
+ */
+export class FireInstances {
+  /** Instance-to-fire transforms, laid out like `InstancedMesh.instanceMatrix`. */
+  public readonly matrices: InstancedBufferAttribute
+  /** Per-instance tint, laid out like `InstancedMesh.instanceColor`. */
+  public readonly colors: InstancedBufferAttribute
+  /** World-to-instance transforms, refreshed by {@link update}. */
+  private readonly inverses: InstancedInterleavedBuffer
+  /** `[seed, magnitude, timeOffset]` per instance. */
+  private readonly params: InstancedInterleavedBuffer
+
+  constructor(geometry: BufferGeometry, capacity: number) {
+    this.matrices = new InstancedBufferAttribute(new Float32Array(capacity * 16), 16)
+    this.colors = new InstancedBufferAttribute(new Float32Array(capacity * 3).fill(1), 3)
+    this.inverses = new InstancedInterleavedBuffer(new Float32Array(capacity * 16), 16, 1)
+    this.params = new InstancedInterleavedBuffer(new Float32Array(capacity * 3), 3, 1)
+
+    for (let i = 0; i < capacity; i++) {
+      _matrix.identity().toArray(this.matrices.array, i * 16)
+      this.params.array[i * 3 + SEED] = randomSeed()
+      this.params.array[i * 3 + MAGNITUDE] = 1
+    }
+
+    INSTANCE_INV_MODEL_MATRIX.forEach((name, column) => {
+      geometry.setAttribute(name, new InterleavedBufferAttribute(this.inverses, 4, column * 4))
+    })
+    geometry.setAttribute(INSTANCE_FIRE_PARAMS, new InterleavedBufferAttribute(this.params, 3, 0))
+  }
+
+  /** Number of instances the buffers hold. */
+  public get capacity(): number {
+    return this.matrices.count
+  }
+
+  /**
+   * Recomputes the world-to-instance matrices of the first `count` instances,
+   * uploading them again only if any moved.
+   *
+   * @param matrixWorld - World matrix of the fire holding the instances
+   * @param count - Number of instances drawn
+   */
+  public update(matrixWorld: Matrix4, count: number): void {
+    let changed = false
+    for (let i = 0; i < count; i++) {
+      const inverse = this.worldMatrixAt(i, matrixWorld, _matrix).invert()
+      changed = write(this.inverses.array as Float32Array, i * 16, inverse.elements) || changed
+    }
+    if (changed) this.inverses.needsUpdate = true
+  }
+
+  /** The instance's world matrix, given the world matrix of its fire. */
+  public worldMatrixAt(index: number, matrixWorld: Matrix4, target: Matrix4): Matrix4 {
+    return target.fromArray(this.matrices.array, index * 16).premultiply(matrixWorld)
+  }
+
+  /** The instance's world-to-local matrix as of the last {@link update}. */
+  public inverseAt(index: number, target: Matrix4): Matrix4 {
+    return target.fromArray(this.inverses.array, index * 16)
+  }
+
+  /**
+   * Bounds of the first `count` instances in the fire's local space, or empty
+   * without instances.
+   */
+  public computeBoundingBox(geometry: BufferGeometry, count: number, target: Box3): Box3 {
+    if (geometry.boundingBox === null) geometry.computeBoundingBox()
+    target.makeEmpty()
+    for (let i = 0; i < count; i++) {
+      target.union(
+        _box.copy(geometry.boundingBox as Box3).applyMatrix4(this.getMatrixAt(i, _matrix)),
+      )
+    }
+    return target
+  }
+
+  /**
+   * Bounding sphere of the first `count` instances in the fire's local space,
+   * or empty without instances.
+   */
+  public computeBoundingSphere(geometry: BufferGeometry, count: number, target: Sphere): Sphere {
+    if (geometry.boundingSphere === null) geometry.computeBoundingSphere()
+    target.makeEmpty()
+    for (let i = 0; i < count; i++) {
+      const sphere = _sphere.copy(geometry.boundingSphere as Sphere)
+      target.union(sphere.applyMatrix4(this.getMatrixAt(i, _matrix)))
+    }
+    return target
+  }
+
+  /**
+   * Sets the transform of an instance; the setters only mark their buffer for
+   * upload when the value changes.
+   *
+   * @returns Whether the transform changed
+   */
+  public setMatrixAt(index: number, matrix: Matrix4): boolean {
+    const changed = write(this.matrices.array as Float32Array, index * 16, matrix.elements)
+    if (changed) this.matrices.needsUpdate = true
+    return changed
+  }
+
+  public getMatrixAt(index: number, target: Matrix4): Matrix4 {
+    return target.fromArray(this.matrices.array, index * 16)
+  }
+
+  public setColorAt(index: number, color: Color | string | number): void {
+    const value = color instanceof Color ? color : _color.set(color)
+    if (write(this.colors.array as Float32Array, index * 3, value.toArray(_rgb))) {
+      this.colors.needsUpdate = true
+    }
+  }
+
+  public getColorAt(index: number, target: Color): Color {
+    return target.fromArray(this.colors.array, index * 3)
+  }
+
+  public getSeedAt(index: number): number {
+    return this.params.array[index * 3 + SEED]
+  }
+
+  public setSeedAt(index: number, seed: number): void {
+    this.setParam(index, SEED, seed)
+  }
+
+  public getMagnitudeAt(index: number): number {
+    return this.params.array[index * 3 + MAGNITUDE]
+  }
+
+  public setMagnitudeAt(index: number, magnitude: number): void {
+    this.setParam(index, MAGNITUDE, magnitude)
+  }
+
+  public getTimeOffsetAt(index: number): number {
+    return this.params.array[index * 3 + TIME_OFFSET]
+  }
+
+  public setTimeOffsetAt(index: number, offset: number): void {
+    this.setParam(index, TIME_OFFSET, offset)
+  }
+
+  private setParam(index: number, param: number, value: number): void {
+    const i = index * 3 + param
+    const stored = Math.fround(value)
+    if (this.params.array[i] !== stored) {
+      this.params.array[i] = stored
+      this.params.needsUpdate = true
+    }
+  }
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: a mixin's base constructor takes any arguments
+type FireClass = abstract new (...args: any[]) => AbstractFire<Material>
+
+/**
+ * The per-instance surface {@link withFireInstances} adds to a fire, laid out
+ * like three.js's `InstancedMesh`.
+ */
+export interface FireInstanceMethods {
+  /** Marks the fire as an `InstancedMesh` to three.js's renderers. */
+  readonly isInstancedMesh: true
+  /** Instance transforms, relative to the fire. */
+  readonly instanceMatrix: InstancedBufferAttribute
+  /** Instance color tints; white leaves the fire's color as it is. */
+  readonly instanceColor: InstancedBufferAttribute
+  /** Instanced fires have no morph targets. */
+  readonly morphTexture: DataTexture | null
+  /** Bounds of all instances in local space, `null` until computed. */
+  boundingBox: Box3 | null
+  /** Bounding sphere of all instances in local space, `null` until computed. */
+  boundingSphere: Sphere | null
+  /** Sets the transform of an instance, relative to the fire. */
+  setMatrixAt(index: number, matrix: Matrix4): void
+  /** Copies the transform of an instance into `matrix`. */
+  getMatrixAt(index: number, matrix: Matrix4): Matrix4
+  /** Sets the color tint of an instance, multiplied with the fire's color. */
+  setColorAt(index: number, color: Color | string | number): void
+  /** Copies the color tint of an instance into `color`. */
+  getColorAt(index: number, color: Color): Color
+  /** Sets the noise seed of an instance, added to the fire's seed. Default: random */
+  setSeedAt(index: number, seed: number): void
+  getSeedAt(index: number): number
+  /** Sets the magnitude of an instance, multiplied with the fire's magnitude. Default: 1 */
+  setMagnitudeAt(index: number, magnitude: number): void
+  getMagnitudeAt(index: number): number
+  /** Sets the seconds added to an instance's animation time. Default: 0 */
+  setTimeOffsetAt(index: number, offset: number): void
+  getTimeOffsetAt(index: number): number
+  /** Computes {@link boundingBox} from the first `count` instances. */
+  computeBoundingBox(): void
+  /** Computes {@link boundingSphere} from the first `count` instances. */
+  computeBoundingSphere(): void
+}
+
+/**
+ * Gives a fire class the per-instance surface of an `InstancedMesh`: instance
+ * transforms, colors, seeds, magnitudes and time offsets, and the bounds of
+ * all instances. Shared by `InstancedFire` and `InstancedFireTSL`, whose
+ * props are the fire's plus the instance `count`.
+ *
+ * @param Base - The single-fire class to extend
+ */
+export function withFireInstances<TBase extends FireClass>(
+  Base: TBase,
+  // biome-ignore lint/suspicious/noExplicitAny: a mixin's constructor takes any arguments
+): TBase & (abstract new (...args: any[]) => FireInstanceMethods) {
+  abstract class FireWithInstances extends Base implements FireInstanceMethods {
+    public readonly isInstancedMesh = true as const
+    public readonly instanceMatrix: InstancedBufferAttribute
+    public readonly instanceColor: InstancedBufferAttribute
+    public readonly morphTexture: DataTexture | null = null
+    public boundingBox: Box3 | null = null
+    public boundingSphere: Sphere | null = null
+
+    protected declare instances: FireInstances
+
+    // biome-ignore lint/suspicious/noExplicitAny: a mixin's constructor takes any arguments
+    constructor(...args: any[]) {
+      super(...args)
+      const { count } = args[0] as { count: number }
+
+      // The instance attributes go on the geometry, so it can't be the shared box
+      releaseFireGeometry(this.geometry)
+      this.geometry = new BoxGeometry(1, 1, 1)
+      this.instances = new FireInstances(this.geometry, count)
+      this.instanceMatrix = this.instances.matrices
+      this.instanceColor = this.instances.colors
+      this.count = count
+    }
+
+    public setMatrixAt(index: number, matrix: Matrix4): void {
+      if (this.instances.setMatrixAt(index, matrix)) {
+        this.boundingBox = null
+        this.boundingSphere = null
+      }
+    }
+
+    public getMatrixAt(index: number, matrix: Matrix4): Matrix4 {
+      return this.instances.getMatrixAt(index, matrix)
+    }
+
+    public setColorAt(index: number, color: Color | string | number): void {
+      this.instances.setColorAt(index, color)
+    }
+
+    public getColorAt(index: number, color: Color): Color {
+      return this.instances.getColorAt(index, color)
+    }
+
+    public setSeedAt(index: number, seed: number): void {
+      this.instances.setSeedAt(index, seed)
+    }
+
+    public getSeedAt(index: number): number {
+      return this.instances.getSeedAt(index)
+    }
+
+    public setMagnitudeAt(index: number, magnitude: number): void {
+      this.instances.setMagnitudeAt(index, magnitude)
+    }
+
+    public getMagnitudeAt(index: number): number {
+      return this.instances.getMagnitudeAt(index)
+    }
+
+    public setTimeOffsetAt(index: number, offset: number): void {
+      this.instances.setTimeOffsetAt(index, offset)
+    }
+
+    public getTimeOffsetAt(index: number): number {
+      return this.instances.getTimeOffsetAt(index)
+    }
+
+    public computeBoundingBox(): void {
+      this.boundingBox = this.instances.computeBoundingBox(
+        this.geometry,
+        this.count,
+        this.boundingBox ?? new Box3(),
+      )
+    }
+
+    public computeBoundingSphere(): void {
+      this.boundingSphere = this.instances.computeBoundingSphere(
+        this.geometry,
+        this.count,
+        this.boundingSphere ?? new Sphere(),
+      )
+    }
+
+    /** Releases the GPU resources, including the instance buffers. */
+    public dispose(): void {
+      super.dispose()
+      // Lets the renderer free the instance buffers, as for an InstancedMesh
+      ;(this as unknown as EventDispatcher<{ dispose: object }>).dispatchEvent({ type: 'dispose' })
+    }
+  }
+  return FireWithInstances
+}
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview CPU ports of the noise the fire shaders evaluate on the GPU
+ *
+ * `simplexNoise` mirrors the GLSL `snoise` (Ashima Arts / Stefan Gustavson) and
+ * `perlinNoise` mirrors TSL's `mx_noise_float` (MaterialX Perlin noise), so CPU
+ * side effects such as lights can follow the rendered flames.
+ */
+
+/** A 3D noise function returning values in roughly `[-1, 1]`. */
+export type Noise3 = (x: number, y: number, z: number) => number
+
+// The lattice hashing below floors products of whole numbers with inexact
+// constants, so it is evaluated in single precision like on the GPU: a double
+// can land just below an integer where a float lands on it.
+const f32 = Math.fround
+const INV_289 = f32(1 / 289)
+const NS_Z = f32(0.142857142857)
+const NS_X = f32(NS_Z * 2)
+const NS_Y = f32(f32(NS_Z * 0.5) - 1)
+
+const mod289 = (x: number): number => x - Math.floor(f32(x * INV_289)) * 289
+const permute = (x: number): number => mod289((x * 34 + 1) * x)
+const taylorInvSqrt = (r: number): number => 1.79284291400159 - 0.85373472095314 * r
+
+/**
+ * 3D simplex noise, a line-by-line port of the GLSL `snoise` in `FireShader`.
+ */
+export const simplexNoise: Noise3 = (x, y, z) => {
+  // Skew to the simplex grid and find the cell origin
+  const skew = (x + y + z) / 3
+  const i = Math.floor(x + skew)
+  const j = Math.floor(y + skew)
+  const k = Math.floor(z + skew)
+  const unskew = (i + j + k) / 6
+  const x0 = x - i + unskew
+  const y0 = y - j + unskew
+  const z0 = z - k + unskew
+
+  // Rank the offsets to pick the two middle corners (step(x0.yzx, x0.xyz))
+  const gx = x0 >= y0 ? 1 : 0
+  const gy = y0 >= z0 ? 1 : 0
+  const gz = z0 >= x0 ? 1 : 0
+  const i1 = [Math.min(gx, 1 - gz), Math.min(gy, 1 - gx), Math.min(gz, 1 - gy)]
+  const i2 = [Math.max(gx, 1 - gz), Math.max(gy, 1 - gx), Math.max(gz, 1 - gy)]
+
+  const corners = [
+    [x0, y0, z0],
+    [x0 - i1[0] + 1 / 6, y0 - i1[1] + 1 / 6, z0 - i1[2] + 1 / 6],
+    [x0 - i2[0] + 1 / 3, y0 - i2[1] + 1 / 3, z0 - i2[2] + 1 / 3],
+    [x0 - 0.5, y0 - 0.5, z0 - 0.5],
+  ]
+  const offsets = [[0, 0, 0], i1, i2, [1, 1, 1]]
+
+  const ci = mod289(i)
+  const cj = mod289(j)
+  const ck = mod289(k)
+
+  let sum = 0
+  for (let c = 0; c < 4; c++) {
+    const [ox, oy, oz] = offsets[c]
+    const p = permute(permute(permute(ck + oz) + cj + oy) + ci + ox)
+
+    // Gradients: 7x7 points over a square, mapped onto an octahedron
+    const jj = p - 49 * Math.floor(f32(f32(p * NS_Z) * NS_Z))
+    const xg_ = Math.floor(f32(jj * NS_Z))
+    const yg_ = Math.floor(jj - 7 * xg_)
+    let gradX = xg_ * NS_X + NS_Y
+    let gradY = yg_ * NS_X + NS_Y
+    const gradZ = 1 - Math.abs(gradX) - Math.abs(gradY)
+    const sh = gradZ <= 0 ? -1 : 0
+    gradX += (Math.floor(gradX) * 2 + 1) * sh
+    gradY += (Math.floor(gradY) * 2 + 1) * sh
+
+    const norm = taylorInvSqrt(gradX * gradX + gradY * gradY + gradZ * gradZ)
+    const [cx, cy, cz] = corners[c]
+    const m = Math.max(0.6 - (cx * cx + cy * cy + cz * cz), 0)
+    const m2 = m * m
+    sum += m2 * m2 * (gradX * cx + gradY * cy + gradZ * cz) * norm
+  }
+
+  return 42 * sum
+}
+
+const rotl32 = (x: number, k: number): number => ((x << k) | (x >>> (32 - k))) >>> 0
+
+/** Bob Jenkins' lookup3 final mix, as in MaterialX's `mx_bjfinal`. */
+const bjfinal = (a: number, b: number, c: number): number => {
+  c = ((c ^ b) - rotl32(b, 14)) >>> 0
+  a = ((a ^ c) - rotl32(c, 11)) >>> 0
+  b = ((b ^ a) - rotl32(a, 25)) >>> 0
+  c = ((c ^ b) - rotl32(b, 16)) >>> 0
+  a = ((a ^ c) - rotl32(c, 4)) >>> 0
+  b = ((b ^ a) - rotl32(a, 14)) >>> 0
+  c = ((c ^ b) - rotl32(b, 24)) >>> 0
+  return c
+}
+
+// 0xdeadbeef + (3 << 2) + 13: lookup3's seed for a three-word key
+const HASH_SEED = (0xdeadbeef + (3 << 2) + 13) >>> 0
+
+const hash = (x: number, y: number, z: number): number =>
+  bjfinal((HASH_SEED + x) >>> 0, (HASH_SEED + y) >>> 0, (HASH_SEED + z) >>> 0)
+
+const gradient = (h: number, x: number, y: number, z: number): number => {
+  const b = h & 15
+  const u = b < 8 ? x : y
+  const v = b < 4 ? y : b === 12 || b === 14 ? x : z
+  return (b & 1 ? -u : u) + (b & 2 ? -v : v)
+}
+
+const fade = (t: number): number => t * t * t * (t * (t * 6 - 15) + 10)
+const lerp = (a: number, b: number, t: number): number => a * (1 - t) + b * t
+
+/**
+ * 3D Perlin noise, a port of MaterialX's `mx_perlin_noise_float` that backs
+ * TSL's `mx_noise_float`.
+ */
+export const perlinNoise: Noise3 = (x, y, z) => {
+  const X = Math.floor(x)
+  const Y = Math.floor(y)
+  const Z = Math.floor(z)
+  const fx = x - X
+  const fy = y - Y
+  const fz = z - Z
+  const u = fade(fx)
+  const v = fade(fy)
+  const w = fade(fz)
+
+  const corner = (dx: number, dy: number, dz: number): number =>
+    gradient(hash(X + dx, Y + dy, Z + dz), fx - dx, fy - dy, fz - dz)
+
+  const near = lerp(
+    lerp(corner(0, 0, 0), corner(1, 0, 0), u),
+    lerp(corner(0, 1, 0), corner(1, 1, 0), u),
+    v,
+  )
+  const far = lerp(
+    lerp(corner(0, 0, 1), corner(1, 0, 1), u),
+    lerp(corner(0, 1, 1), corner(1, 1, 1), u),
+    v,
+  )
+  return 0.982 * lerp(near, far, w)
+}
+
+/**
+ * Fractal sum of absolute noise, matching the shaders' `turbulence()`.
+ */
+export function turbulence(
+  noise: Noise3,
+  x: number,
+  y: number,
+  z: number,
+  octaves: number,
+  lacunarity: number,
+  gain: number,
+): number {
+  let sum = 0
+  let freq = 1
+  let amp = 1
+  for (let i = 0; i < octaves; i++) {
+    sum += Math.abs(noise(x * freq, y * freq, z * freq)) * amp
+    freq *= lacunarity
+    amp *= gain
+  }
+  return sum
+}
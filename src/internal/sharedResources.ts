@@ -0,0 +1,65 @@
+import { BoxGeometry, type BufferGeometry } from 'three'
+
+/**
+ * Values shared by everyone who asks for the same key, counted so the last
+ * one to let go frees them.
+ */
+export class RefCountedCache<T> {
+  private readonly entries = new Map<string, { value: T; users: number }>()
+
+  /**
+   * @param free - Releases a value once nothing uses it any more
+   */
+  constructor(private readonly free: (value: T) => void = () => {}) {}
+
+  /**
+   * Returns the value for `key`, creating it on first use, and counts one more
+   * user of it. Pair every call with a {@link release}.
+   */
+  public acquire(key: string, create: () => T): T {
+    let entry = this.entries.get(key)
+    if (!entry) {
+      entry = { value: create(), users: 0 }
+      this.entries.set(key, entry)
+    }
+    entry.users++
+    return entry.value
+  }
+
+  /** Counts one user less of `key`, freeing its value after the last one. */
+  public release(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    if (--entry.users === 0) {
+      this.entries.delete(key)
+      this.free(entry.value)
+    }
+  }
+
+  /** The value held for `key`, without counting a user. */
+  public get(key: string): T | undefined {
+    return this.entries.get(key)?.value
+  }
+}
+
+const UNIT_BOX = 'unitBox'
+const geometries = new RefCountedCache<BufferGeometry>((geometry) => geometry.dispose())
+
+/**
+ * The unit box every fire marches through, shared by all of them so spawning a
+ * fire uploads no new buffers. Give it back with {@link releaseFireGeometry}.
+ */
+export const acquireUnitBox = (): BufferGeometry =>
+  geometries.acquire(UNIT_BOX, () => new BoxGeometry(1, 1, 1))
+
+/**
+ * Gives back a fire's geometry: the shared unit box is freed after its last
+ * user, a geometry of the fire's own right away.
+ */
+export const releaseFireGeometry = (geometry: BufferGeometry): void => {
+  if (geometry === geometries.get(UNIT_BOX)) {
+    geometries.release(UNIT_BOX)
+  } else {
+    geometry.dispose()
+  }
+}
@@ -0,0 +1,99 @@
+import { Color, SRGBColorSpace, type Texture } from 'three'
+
+/**
+ * The red channel of a texture's texels, in the order they are uploaded (the
+ * first row ends up at `v = 0` unless the texture is flipped).
+ */
+interface TexelRows {
+  red: Float32Array
+  width: number
+  height: number
+}
+
+const cache = new WeakMap<object, { version: number; rows: TexelRows | null }>()
+const _srgb = new Color()
+
+const clamp01 = (t: number): number => Math.min(Math.max(t, 0), 1)
+
+/** Reads the red channel of raw texture data, normalised to `[0, 1]`. */
+function readData(data: ArrayLike<number>, width: number, height: number): TexelRows | null {
+  const channels = data.length / (width * height)
+  if (!Number.isInteger(channels) || channels < 1) return null
+  const scale = data instanceof Uint8Array || data instanceof Uint8ClampedArray ? 1 / 255 : 1
+  if (scale === 1 && !(data instanceof Float32Array)) return null
+
+  const red = new Float32Array(width * height)
+  for (let i = 0; i < red.length; i++) red[i] = data[i * channels] * scale
+  return { red, width, height }
+}
+
+/** Draws a browser image onto a 2D canvas to read its pixels back. */
+function readImage(image: CanvasImageSource & { width: number; height: number }): TexelRows | null {
+  const { width, height } = image
+  if (!width || !height) return null
+
+  const canvas =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height)
+      : typeof document !== 'undefined'
+        ? Object.assign(document.createElement('canvas'), { width, height })
+        : null
+  const context = canvas?.getContext('2d') as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null
+    | undefined
+  if (!context) return null
+
+  context.drawImage(image, 0, 0)
+  return readData(context.getImageData(0, 0, width, height).data, width, height)
+}
+
+function readTexture(texture: Texture): TexelRows | null {
+  const image = texture.image as
+    | { data?: ArrayLike<number>; width?: number; height?: number }
+    | null
+    | undefined
+  if (!image) return null
+
+  const cached = cache.get(image)
+  if (cached && cached.version === texture.version) return cached.rows
+
+  const rows = image.data
+    ? readData(image.data, image.width ?? 0, image.height ?? 0)
+    : readImage(image as CanvasImageSource & { width: number; height: number })
+  cache.set(image, { version: texture.version, rows })
+  return rows
+}
+
+/**
+ * Samples a texture's red channel on the CPU the way the fire shaders do:
+ * bilinear filtering, clamped to the edges, sRGB decoded when flagged.
+ *
+ * Pixels of browser images are read back through a 2D canvas once per texture
+ * version; returns 0 while the texture has no readable data.
+ */
+export function sampleTextureRed(texture: Texture, u: number, v: number): number {
+  const rows = readTexture(texture)
+  if (!rows) return 0
+  const { red, width, height } = rows
+
+  const x = clamp01(u) * width - 0.5
+  // Flipped textures are uploaded bottom row first
+  const y = (texture.flipY ? 1 - clamp01(v) : clamp01(v)) * height - 0.5
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const fx = x - x0
+  const fy = y - y0
+
+  const srgb = texture.colorSpace === SRGBColorSpace
+  const texel = (tx: number, ty: number): number => {
+    const value =
+      red[Math.min(Math.max(ty, 0), height - 1) * width + Math.min(Math.max(tx, 0), width - 1)]
+    return srgb ? _srgb.setRGB(value, value, value, SRGBColorSpace).r : value
+  }
+
+  const top = texel(x0, y0) * (1 - fx) + texel(x0 + 1, y0) * fx
+  const bottom = texel(x0, y0 + 1) * (1 - fx) + texel(x0 + 1, y0 + 1) * fx
+  return top * (1 - fy) + bottom * fy
+}
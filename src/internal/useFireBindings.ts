@@ -1,6 +1,7 @@
 import { useImperativeHandle } from 'react'
 import type { Ref, RefObject } from 'react'
 import { useFrame } from '@react-three/fiber'
+import type { Camera } from 'three'
 
 /**
  * Imperative handle exposed by the Fire React components.
@@ -12,6 +13,14 @@ export interface FireHandle<TFire> {
   update: (time?: number) => void
 }
 
+/**
+ * useFrame priority the fires advance at. Below 0, so callbacks at the default
+ * priority, such as `<FireLight>` following its fire, see this frame's flames,
+ * without taking over rendering from R3F. The instances of `<Fires>` are
+ * placed one priority earlier still.
+ */
+export const FIRE_UPDATE_PRIORITY = -1
+
 /**
  * Shared per-frame update + imperative handle wiring for the GLSL and TSL Fire
  * components. Keeps the two components in lockstep so fixes land once.
@@ -21,7 +30,7 @@ export interface FireHandle<TFire> {
  * @param autoUpdate - Whether to advance the animation each frame
  * @param onUpdate - Optional per-frame callback
  */
-export function useFireBindings<TFire extends { update: (time?: number) => void }>(
+export function useFireBindings<TFire extends { update: (time?: number, camera?: Camera) => void }>(
   ref: Ref<FireHandle<TFire>>,
   fireRef: RefObject<TFire | null>,
   autoUpdate: boolean,
@@ -30,10 +39,10 @@ export function useFireBindings<TFire extends { update: (time?: number) => void
   useFrame((state) => {
     if (fireRef.current && autoUpdate) {
       const time = state.clock.getElapsedTime()
-      fireRef.current.update(time)
+      fireRef.current.update(time, state.camera)
       onUpdate?.(fireRef.current, time)
     }
-  })
+  }, FIRE_UPDATE_PRIORITY)
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: fireRef is a stable ref; its .current must not be a dependency
   useImperativeHandle(
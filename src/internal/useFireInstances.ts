@@ -0,0 +1,99 @@
+import { createContext, useMemo } from 'react'
+import type { RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { type Color, Matrix4, type InstancedBufferAttribute, type Object3D } from 'three'
+import { FIRE_UPDATE_PRIORITY } from './useFireBindings'
+
+/**
+ * What a `<FireInstance>` contributes to its `<Fires>`: the object placing it
+ * and its own fire parameters.
+ */
+export interface FireInstanceEntry {
+  /** Object whose world transform the instance follows (null until mounted) */
+  object: Object3D | null
+  seed: number
+  color: Color
+  magnitude: number
+  timeOffset: number
+}
+
+/**
+ * Collects the `<FireInstance>`s below a `<Fires>`.
+ */
+export interface FireInstanceRegistry {
+  /** Adds an instance; returns a function removing it again. */
+  add(entry: FireInstanceEntry): () => void
+}
+
+/** The registry of the nearest `<Fires>`, or null outside one. */
+export const FireInstancesContext = createContext<FireInstanceRegistry | null>(null)
+
+/**
+ * The per-instance surface of `InstancedFire`, shared by both back-ends.
+ */
+interface InstancedFireTarget extends Object3D {
+  count: number
+  readonly instanceMatrix: InstancedBufferAttribute
+  setMatrixAt(index: number, matrix: Matrix4): void
+  setColorAt(index: number, color: Color): void
+  setSeedAt(index: number, seed: number): void
+  setMagnitudeAt(index: number, magnitude: number): void
+  setTimeOffsetAt(index: number, offset: number): void
+}
+
+const _inverse = new Matrix4()
+const _matrix = new Matrix4()
+
+/**
+ * Keeps an instanced fire's instances in sync with the registered
+ * `<FireInstance>`s, once per frame. Runs at a priority below
+ * {@link FIRE_UPDATE_PRIORITY}, so the fire's update derives the inverse
+ * matrices drawn this frame from this frame's transforms.
+ *
+ * Instances are packed in registration order; any beyond the fire's capacity
+ * are not drawn. The setters only mark the buffers whose values changed, so
+ * instances that stand still are not uploaded again.
+ *
+ * @param fireRef - Ref attached to the instanced fire
+ * @returns The registry to provide through {@link FireInstancesContext}
+ */
+export function useFireInstances(
+  fireRef: RefObject<InstancedFireTarget | null>,
+): FireInstanceRegistry {
+  const entries = useMemo<FireInstanceEntry[]>(() => [], [])
+  const registry = useMemo<FireInstanceRegistry>(
+    () => ({
+      add(entry) {
+        entries.push(entry)
+        return () => {
+          const index = entries.indexOf(entry)
+          if (index !== -1) entries.splice(index, 1)
+        }
+      },
+    }),
+    [entries],
+  )
+
+  useFrame(() => {
+    const fire = fireRef.current
+    if (!fire) return
+
+    fire.updateWorldMatrix(true, false)
+    _inverse.copy(fire.matrixWorld).invert()
+
+    let count = 0
+    for (const entry of entries) {
+      if (!entry.object || count === fire.instanceMatrix.count) continue
+      entry.object.updateWorldMatrix(true, false)
+      fire.setMatrixAt(count, _matrix.multiplyMatrices(_inverse, entry.object.matrixWorld))
+      fire.setColorAt(count, entry.color)
+      fire.setSeedAt(count, entry.seed)
+      fire.setMagnitudeAt(count, entry.magnitude)
+      fire.setTimeOffsetAt(count, entry.timeOffset)
+      count++
+    }
+    fire.count = count
+  }, FIRE_UPDATE_PRIORITY - 1)
+
+  return registry
+}
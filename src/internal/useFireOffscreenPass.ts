@@ -0,0 +1,61 @@
+import { useLayoutEffect, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { RenderTarget } from 'three'
+import type { AbstractFirePass, FireOffscreenPassOptions } from './AbstractFirePass'
+
+/**
+ * Props for the FireOffscreenPass React component
+ */
+export interface FireOffscreenPassProps extends FireOffscreenPassOptions {
+  /**
+   * useFrame priority the scene is drawn at; above 0 it takes over rendering
+   * from R3F (default: 1)
+   */
+  priority?: number
+}
+
+/**
+ * Creates a fire pass, keeps it in sync with the props and draws the scene
+ * through it every frame. Shared by the GLSL and TSL components.
+ *
+ * The pass is created and disposed by the same effect, so one that runs again,
+ * as under StrictMode, gets a new pass rather than reusing the disposed one.
+ *
+ * @param create - Creates the pass, once per mount
+ * @param props - Component props
+ */
+export function useFireOffscreenPass<TRenderer>(
+  create: () => AbstractFirePass<TRenderer, RenderTarget>,
+  {
+    resolutionScale = 0.5,
+    depthTexture = null,
+    depthThreshold = 0.1,
+    priority = 1,
+  }: FireOffscreenPassProps,
+) {
+  const passRef = useRef<AbstractFirePass<TRenderer, RenderTarget> | null>(null)
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the pass is created once per mount
+  useLayoutEffect(() => {
+    const pass = create()
+    passRef.current = pass
+    return () => {
+      pass.dispose()
+      if (passRef.current === pass) passRef.current = null
+    }
+  }, [])
+
+  // Declared after the pass is created, so a new pass gets the props too
+  useLayoutEffect(() => {
+    const pass = passRef.current
+    if (!pass) return
+    pass.resolutionScale = resolutionScale
+    pass.depthTexture = depthTexture
+    pass.depthThreshold = depthThreshold
+  }, [resolutionScale, depthTexture, depthThreshold])
+
+  useFrame((state) => {
+    // R3F types `gl` as a WebGLRenderer; under a WebGPU canvas it is the WebGPURenderer
+    passRef.current?.render(state.gl as unknown as TRenderer, state.scene, state.camera)
+  }, priority)
+}
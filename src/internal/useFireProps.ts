@@ -0,0 +1,110 @@
+import { useLayoutEffect, useMemo, useRef } from 'react'
+import type { RefObject } from 'react'
+import type { Material, Texture } from 'three'
+import { useFireWind } from '../FireWindProvider'
+import { useFireQualityManager } from '../FireQualityProvider'
+import {
+  AbstractFire,
+  FIRE_OPTION_DEFAULTS,
+  resolveFireOptions,
+  type FireOptions,
+  type ResolvedFireOptions,
+} from './AbstractFire'
+
+/**
+ * Splits a fire component's props into the fire options, which the mesh's
+ * setters apply so changing them never reconstructs it, and the rest.
+ *
+ * A `windField` or `qualityManager` left out follows the nearest
+ * `<FireWindProvider>` or `<FireQualityProvider>`.
+ *
+ * @param props - Component props, without the ones the component handles itself
+ * @returns The fire options and the other props
+ */
+export function useFireOptions<TProps extends FireOptions>(
+  props: TProps,
+): [FireOptions, Omit<TProps, keyof FireOptions>] {
+  const contextWind = useFireWind()
+  const contextQuality = useFireQualityManager()
+
+  const options: FireOptions & Record<string, unknown> = {}
+  const rest: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(props)) {
+    if (key in FIRE_OPTION_DEFAULTS || key === 'seed') options[key] = value
+    else rest[key] = value
+  }
+  if (options.windField === undefined) options.windField = contextWind
+  if (options.qualityManager === undefined) options.qualityManager = contextQuality
+  return [options, rest as Omit<TProps, keyof FireOptions>]
+}
+
+/**
+ * Builds the constructor `args` for the fire element.
+ *
+ * The args only change with the texture or with `constructProps` (values that
+ * genuinely need a new mesh), so R3F keeps the same instance while the options
+ * change. A reconstructed mesh still starts from the latest options.
+ *
+ * @param fireTex - Loaded fire texture
+ * @param constructProps - Memoized constructor-only props
+ * @param options - Current fire options
+ */
+export function useFireArgs<TConstruct extends object>(
+  fireTex: Texture,
+  constructProps: TConstruct,
+  options: FireOptions,
+): [FireOptions & TConstruct & { fireTex: Texture }] {
+  const latest = useRef(options)
+  latest.current = options
+
+  return useMemo(
+    () => [{ ...latest.current, ...constructProps, fireTex }],
+    [constructProps, fireTex],
+  )
+}
+
+/** Whether two option values are the same, comparing the entries of arrays such as `wind`. */
+const isSameOption = (a: unknown, b: unknown) =>
+  Object.is(a, b) ||
+  (Array.isArray(a) &&
+    Array.isArray(b) &&
+    a.length === b.length &&
+    a.every((value, i) => Object.is(value, b[i])))
+
+/**
+ * Applies the options that changed since the previous render to the mounted
+ * fire, through {@link AbstractFire.applyOptions}. Options that didn't change
+ * are left alone, so values set on the fire imperatively are kept until their
+ * prop changes; one that is removed goes back to its default. A new fire
+ * instance gets them all.
+ *
+ * @param fireRef - Ref attached to the underlying mesh
+ * @param options - Current fire options
+ */
+export function useLiveFireProps(
+  fireRef: RefObject<AbstractFire<Material> | null>,
+  options: FireOptions,
+): void {
+  const applied = useRef<{ fire: AbstractFire<Material>; options: ResolvedFireOptions } | null>(
+    null,
+  )
+  const resolved = resolveFireOptions(options)
+
+  // Runs after every render: props written inline, like `wind={[1, 0, 0]}`,
+  // are new objects every time, so changes are found by comparing values
+  useLayoutEffect(() => {
+    // Only a mounted fire; outside a Canvas the element isn't a three.js object
+    const fire = fireRef.current
+    if (!(fire instanceof AbstractFire)) return
+    const previous = applied.current?.fire === fire ? applied.current.options : null
+    const changed = previous
+      ? Object.fromEntries(
+          Object.entries(resolved).filter(
+            ([key, value]) => !isSameOption(value, previous[key as keyof ResolvedFireOptions]),
+          ),
+        )
+      : resolved
+    fire.applyOptions(changed)
+    applied.current = { fire, options: resolved }
+  })
+}
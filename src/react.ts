@@ -20,3 +20,23 @@
 
 // Export React Three Fiber components and hooks only
 export { FireComponent as Fire, useFire, type FireRef, type FireProps } from './FireComponent'
+export { FiresComponent as Fires, type FiresProps, type FiresRef } from './FiresComponent'
+export { FireInstance, type FireInstanceProps } from './FireInstance'
+export { FireLightComponent as FireLight, type FireLightProps } from './FireLightComponent'
+export {
+  FireWindProvider,
+  useFireWind,
+  type FireWindProviderProps,
+} from './FireWindProvider'
+export {
+  FireQualityProvider,
+  useFireQuality,
+  useFireQualityManager,
+  type FireQualityProviderProps,
+} from './FireQualityProvider'
+export {
+  FireOffscreenPassComponent as FireOffscreenPass,
+  type FireOffscreenPassProps,
+} from './FireOffscreenPassComponent'
+export type { ColorRamp, ColorStop } from './colorRamp'
+export type { FireIntersection, FireLodLevel, FireOptions } from './internal/AbstractFire'
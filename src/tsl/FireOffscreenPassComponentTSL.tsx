@@ -0,0 +1,26 @@
+import { FireOffscreenPassTSL } from './FireOffscreenPassTSL'
+import { useFireOffscreenPass, type FireOffscreenPassProps } from '../internal/useFireOffscreenPass'
+
+export type { FireOffscreenPassProps }
+
+/**
+ * React Three Fiber component drawing the fires of the scene at reduced
+ * resolution (TSL version)
+ *
+ * It takes over rendering, like a post-processing composer: each frame it
+ * draws the scene without its fires, then the fires into a smaller offscreen
+ * target blended back over it. Needs the Canvas to render with a
+ * WebGPURenderer.
+ *
+ * @example
+ * ```tsx
+ * <Canvas gl={async (props) => { const r = new WebGPURenderer(props); await r.init(); return r }}>
+ *   <FireOffscreenPass resolutionScale={0.5} />
+ *   <Fire texture="/fire.png" scale={[4, 6, 4]} />
+ * </Canvas>
+ * ```
+ */
+export function FireOffscreenPassComponent(props: FireOffscreenPassProps) {
+  useFireOffscreenPass(() => new FireOffscreenPassTSL(), props)
+  return null
+}
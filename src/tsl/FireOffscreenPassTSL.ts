@@ -0,0 +1,171 @@
+import {
+  Fn,
+  If,
+  vec2,
+  float,
+  uniform,
+  texture,
+  abs,
+  floor,
+  max,
+  select,
+  screenUV,
+  perspectiveDepthToViewZ,
+  orthographicDepthToViewZ,
+} from 'three/tsl'
+import {
+  NormalBlending,
+  OrthographicCamera,
+  PerspectiveCamera,
+  RenderTarget,
+  Vector2,
+  type Camera,
+  type DepthTexture,
+} from 'three'
+import { NodeMaterial, QuadMesh, type WebGPURenderer } from 'three/webgpu'
+import { AbstractFirePass, type FireOffscreenPassOptions } from '../internal/AbstractFirePass'
+
+// biome-ignore lint/suspicious/noExplicitAny: TSL's proxy node API isn't statically typeable
+type TSLNode = any
+
+/** Uniforms of the node graph compositing the offscreen fires. */
+interface FireCompositeNodes {
+  fireSize: TSLNode
+  cameraNear: TSLNode
+  cameraFar: TSLNode
+  orthographic: TSLNode
+  depthThreshold: TSLNode
+}
+
+/**
+ * Upsamples the offscreen fires. Given the scene depth it is depth-aware: where
+ * the scene depth under the four texels bilinear filtering would blend strays
+ * from the pixel's own by more than `depthThreshold`, it takes the texel whose
+ * depth is closest, so the flames stay on their side of the edge.
+ */
+const createCompositeNode = (
+  target: RenderTarget,
+  depthTexture: DepthTexture | null,
+  u: FireCompositeNodes,
+) => {
+  const fireTexture = target.texture
+
+  return Fn(() => {
+    const fire = texture(fireTexture, screenUV).toVar('fire')
+    if (!depthTexture) return fire
+
+    const viewDepth = (uv: TSLNode) => {
+      const depth = texture(depthTexture, uv).x
+      return select(
+        u.orthographic.greaterThan(0.5),
+        orthographicDepthToViewZ(depth, u.cameraNear, u.cameraFar),
+        perspectiveDepthToViewZ(depth, u.cameraNear, u.cameraFar),
+      ).negate()
+    }
+
+    const depth = viewDepth(screenUV).toVar('depth')
+    // Centers of the four texels bilinear filtering blends
+    const corner = floor(screenUV.mul(u.fireSize).sub(0.5)).add(0.5).toVar('corner')
+    const nearestUv = vec2(screenUV).toVar('nearestUv')
+    const nearestDiff = float(1e20).toVar('nearestDiff')
+    const maxDiff = float(0.0).toVar('maxDiff')
+    for (const [x, y] of [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ]) {
+      const tapUv = corner.add(vec2(x, y)).div(u.fireSize).toVar()
+      const diff = abs(viewDepth(tapUv).sub(depth)).toVar()
+      maxDiff.assign(max(maxDiff, diff))
+      If(diff.lessThan(nearestDiff), () => {
+        nearestDiff.assign(diff)
+        nearestUv.assign(tapUv)
+      })
+    }
+    If(maxDiff.greaterThan(u.depthThreshold.mul(depth)), () => {
+      fire.assign(texture(fireTexture, nearestUv))
+    })
+
+    return fire
+  })()
+}
+
+/**
+ * Draws the fires of a scene at reduced resolution (WebGPU / TSL)
+ *
+ * Fires are costly per pixel, and often cover much of the screen. The pass
+ * draws every visible fire into an offscreen target at `resolutionScale` of
+ * the output's size — a quarter of the pixels at the default 0.5 — and blends
+ * it back over the scene. Given the scene's `depthTexture`, the upsampling
+ * keeps the flames from bleeding over the edges of geometry in front of them.
+ *
+ * While drawing offscreen the fires are moved to layer 31, which the pass
+ * then draws alone; keep other objects off it.
+ *
+ * @example
+ * ```ts
+ * import { FireOffscreenPass } from '@wolffo/three-fire/tsl/vanilla'
+ *
+ * const firePass = new FireOffscreenPass({ resolutionScale: 0.5 })
+ *
+ * // In animation loop, in place of renderer.render(scene, camera)
+ * fire.update(time)
+ * firePass.render(renderer, scene, camera)
+ * ```
+ */
+export class FireOffscreenPassTSL extends AbstractFirePass<WebGPURenderer, RenderTarget> {
+  private readonly material: NodeMaterial
+  private readonly quad: QuadMesh
+  private readonly uniforms: FireCompositeNodes
+
+  /**
+   * Creates a new FireOffscreenPassTSL
+   *
+   * @param options - Pass options
+   */
+  constructor(options: FireOffscreenPassOptions = {}) {
+    const target = new RenderTarget(1, 1, { depthBuffer: false })
+    const material = new NodeMaterial()
+    material.blending = NormalBlending
+    material.premultipliedAlpha = true
+    material.transparent = true
+    material.depthTest = false
+    material.depthWrite = false
+
+    super(target, options)
+    this.material = material
+    this.quad = new QuadMesh(material)
+    this.uniforms = {
+      fireSize: uniform(new Vector2(1, 1)),
+      cameraNear: uniform(0.1),
+      cameraFar: uniform(2000),
+      orthographic: uniform(0),
+      depthThreshold: uniform(0.1),
+    }
+    // The bilinear graph to begin with; a depth texture swaps in the depth-aware one
+    this.applyDepthTexture(null)
+    this.depthTexture = options.depthTexture ?? null
+  }
+
+  protected applyDepthTexture(depthTexture: DepthTexture | null): void {
+    this.material.fragmentNode = createCompositeNode(this.target, depthTexture, this.uniforms)
+    this.material.needsUpdate = true
+  }
+
+  protected composite(renderer: WebGPURenderer, camera: Camera): void {
+    const u = this.uniforms
+    u.fireSize.value.set(this.target.width, this.target.height)
+    u.depthThreshold.value = this.depthThreshold
+    if (camera instanceof PerspectiveCamera || camera instanceof OrthographicCamera) {
+      u.cameraNear.value = camera.near
+      u.cameraFar.value = camera.far
+    }
+    u.orthographic.value = camera instanceof OrthographicCamera ? 1 : 0
+    renderer.render(this.quad, this.quad.camera)
+  }
+
+  protected disposeComposite(): void {
+    this.material.dispose()
+  }
+}
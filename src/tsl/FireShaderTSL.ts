@@ -8,9 +8,12 @@
 import {
   Fn,
   Loop,
+  If,
+  Break,
   vec2,
   vec3,
   vec4,
+  mat4,
   float,
   uniform,
   texture,
@@ -23,7 +26,21 @@ import {
   positionWorld,
   mx_noise_float,
   select,
-  time,
+  fract,
+  clamp,
+  min,
+  max,
+  mix,
+  screenUV,
+  screenCoordinate,
+  cameraNear,
+  cameraFar,
+  cameraViewMatrix,
+  perspectiveDepthToViewZ,
+  orthographicDepthToViewZ,
+  renderGroup,
+  attribute,
+  varyingProperty,
 } from 'three/tsl'
 import {
   Color,
@@ -31,9 +48,13 @@ import {
   Vector3,
   Vector4,
   type Texture,
+  type DepthTexture,
+  OrthographicCamera,
   LinearFilter,
   ClampToEdgeWrapping,
 } from 'three'
+import { randomSeed } from '../internal/AbstractFire'
+import { INSTANCE_FIRE_PARAMS, INSTANCE_INV_MODEL_MATRIX } from '../internal/FireInstances'
 
 // TSL nodes expose a dynamically-proxied fluent API (swizzles, operators,
 // assignment) that three.js's published types don't model — three's own TSL
@@ -53,6 +74,15 @@ export interface FireTSLConfig {
   magnitude?: number
   lacunarity?: number
   gain?: number
+  seed?: number
+  depthTexture?: DepthTexture | null
+  depthSoftness?: number
+  /** Gradient texture applied by density in place of `color` */
+  colorRamp?: Texture | null
+  minTemperature?: number
+  maxTemperature?: number
+  /** Accumulated density at which rays stop marching in early-exit mode */
+  densityCutoff?: number
 }
 
 /**
@@ -72,16 +102,36 @@ export interface FireTSLUniforms {
   magnitude: { value: number }
   lacunarity: { value: number }
   gain: { value: number }
+  /** Scene depth texture; when set the fire is occluded by and fades into scene geometry */
+  depthTexture: DepthTexture | null
+  depthSoftness: { value: number }
+  /** Gradient looked up by accumulated density; replaces `color` when set */
+  colorRamp: Texture | null
+  /** Blackbody temperature in Kelvin of the thinnest flame (blackbody mode) */
+  minTemperature: { value: number }
+  /** Blackbody temperature in Kelvin of the densest flame (blackbody mode) */
+  maxTemperature: { value: number }
+  /** Wind in the fire's local space; leans the flame column */
+  wind: { value: Vector3 }
+  /** Local-space distance the wind has carried the noise so far */
+  windDrift: { value: Vector3 }
+  /** Local-space shift of the flame tip trailing the fire's motion */
+  lean: { value: Vector3 }
+  /** Accumulated density at which rays stop marching (early-exit mode) */
+  densityCutoff: { value: number }
+  /** Frame of the animated ray-start jitter (jitter mode), 0 for a fixed pattern */
+  jitterFrame: { value: number }
 }
 
+/** Uniform-bag entries that hold textures directly rather than uniform nodes. */
+type FireTextureKeys = 'fireTex' | 'depthTexture' | 'colorRamp'
+
 /**
  * Internal view of the same uniform objects as raw TSL nodes, used while
  * building the shader graph (where the fluent node API is required).
  */
-type FireUniformNodes = { fireTex: Texture } & Record<
-  Exclude<keyof FireTSLUniforms, 'fireTex'>,
-  TSLNode
->
+type FireUniformNodes = Pick<FireTSLUniforms, FireTextureKeys> &
+  Record<Exclude<keyof FireTSLUniforms, FireTextureKeys>, TSLNode>
 
 export const createFireUniforms = (config: FireTSLConfig): FireTSLUniforms => {
   const colorValue =
@@ -96,16 +146,48 @@ export const createFireUniforms = (config: FireTSLConfig): FireTSLUniforms => {
     fireTex: config.fireTex,
     color: uniform(colorValue),
     time: uniform(0),
-    seed: uniform(Math.random() * 19.19),
+    seed: uniform(config.seed ?? randomSeed()),
     invModelMatrix: uniform(new Matrix4()),
     scale: uniform(new Vector3(1, 1, 1)),
     noiseScale: uniform(new Vector4(...(config.noiseScale ?? [1, 2, 1, 0.3]))),
     magnitude: uniform(config.magnitude ?? 1.3),
     lacunarity: uniform(config.lacunarity ?? 2.0),
     gain: uniform(config.gain ?? 0.5),
+    depthTexture: config.depthTexture ?? null,
+    depthSoftness: uniform(config.depthSoftness ?? 0.1),
+    colorRamp: config.colorRamp ?? null,
+    minTemperature: uniform(config.minTemperature ?? 1800),
+    maxTemperature: uniform(config.maxTemperature ?? 4000),
+    wind: uniform(new Vector3()),
+    windDrift: uniform(new Vector3()),
+    lean: uniform(new Vector3()),
+    densityCutoff: uniform(config.densityCutoff ?? 1.0),
+    jitterFrame: uniform(0),
   }
 }
 
+/**
+ * 1 while an orthographic camera is being rendered, 0 for perspective.
+ * Refreshed once per render so the same fire works under either camera type.
+ */
+const cameraIsOrthographic = uniform(0)
+  .setGroup(renderGroup)
+  .onRenderUpdate(({ camera }) => (camera instanceof OrthographicCamera ? 1 : 0))
+
+/**
+ * View-space distance to the opaque surface behind the current pixel, read from
+ * a scene depth texture.
+ */
+const sceneDepth = (depthTexture: DepthTexture) => {
+  const depth = texture(depthTexture, screenUV).x.toVar('sceneDepthSample')
+  const viewZ = select(
+    cameraIsOrthographic.greaterThan(0.5),
+    orthographicDepthToViewZ(depth, cameraNear, cameraFar),
+    perspectiveDepthToViewZ(depth, cameraNear, cameraFar),
+  )
+  return viewZ.negate()
+}
+
 /**
  * Turbulence function using Fractional Brownian Motion (FBM)
  * Uses mx_noise_float (Perlin noise) instead of simplex noise
@@ -130,78 +212,273 @@ const localize = Fn(([worldPos, invMatrix]: [TSLNode, TSLNode]) => {
   return invMatrix.mul(vec4(worldPos, 1.0)).xyz
 })
 
+/**
+ * Entry and exit distances of a local-space ray through the unit box.
+ */
+const intersectBox = Fn(([origin, dir]: [TSLNode, TSLNode]) => {
+  const invDir = vec3(1.0).div(dir)
+  const t0 = vec3(-0.5).sub(origin).mul(invDir)
+  const t1 = vec3(0.5).sub(origin).mul(invDir)
+  const tMin = min(t0, t1)
+  const tMax = max(t0, t1)
+  return vec2(max(max(tMin.x, tMin.y), tMin.z), min(min(tMax.x, tMax.y), tMax.z))
+})
+
+/**
+ * Linear sRGB chromaticity of a blackbody at the given temperature, normalised
+ * so its brightest channel is 1. Follows the Planckian locus fit by Kim et al.,
+ * valid (and clamped) between 1667 K and 25000 K.
+ */
+const blackbodyColor = Fn(([kelvin]: [TSLNode]) => {
+  const t = clamp(kelvin, 1667.0, 25000.0).toVar('t')
+  const t1 = float(1e3).div(t).toVar('t1')
+  const t2 = t1.mul(t1).toVar('t2')
+  const t3 = t2.mul(t1).toVar('t3')
+
+  const x = select(
+    t.lessThan(4000.0),
+    t3.mul(-0.2661239).sub(t2.mul(0.2343589)).add(t1.mul(0.8776956)).add(0.17991),
+    t3.mul(-3.0258469).add(t2.mul(2.1070379)).add(t1.mul(0.2226347)).add(0.24039),
+  ).toVar('x')
+  const x2 = x.mul(x).toVar('x2')
+  const x3 = x2.mul(x).toVar('x3')
+  const y = select(
+    t.lessThan(2222.0),
+    x3.mul(-1.1063814).sub(x2.mul(1.3481102)).add(x.mul(2.18555832)).sub(0.20219683),
+    select(
+      t.lessThan(4000.0),
+      x3.mul(-0.9549476).sub(x2.mul(1.37418593)).add(x.mul(2.09137015)).sub(0.16748867),
+      x3.mul(3.081758).sub(x2.mul(5.8733867)).add(x.mul(3.75112997)).sub(0.37001483),
+    ),
+  ).toVar('y')
+
+  // xyY (Y = 1) to XYZ to linear sRGB
+  const xyz = vec3(x.div(y), 1.0, float(1.0).sub(x).sub(y).div(y)).toVar('xyz')
+  const rgb = max(
+    vec3(
+      dot(vec3(3.2404542, -1.5371385, -0.4985314), xyz),
+      dot(vec3(-0.969266, 1.8760108, 0.041556), xyz),
+      dot(vec3(0.0556434, -0.2040259, 1.0572252), xyz),
+    ),
+    0.0,
+  ).toVar('rgb')
+  return rgb.div(max(max(rgb.x, rgb.y), rgb.z))
+})
+
+/**
+ * Samples per local unit of ray length the classic fixed-step march effectively
+ * took; weighting by it keeps the default look.
+ */
+const DENSITY_PER_UNIT = 20
+
+/**
+ * Interleaved gradient noise by Jimenez: a value in [0, 1) per pixel that
+ * differs enough between neighbours to break up banding into fine grain,
+ * shifted by `frame` when animated.
+ */
+const interleavedGradientNoise = (pixel: TSLNode, frame: TSLNode) => {
+  const shifted = pixel.add(frame.mul(5.588238))
+  return fract(fract(dot(shifted, vec2(0.06711056, 0.00583715))).mul(52.9829189))
+}
+
 /**
  * Creates fire sampler function with uniforms captured in closure
  * This is necessary because TSL Fn parameters must be TSL nodes, not plain objects
- * Uses TSL's built-in `time` node for automatic animation
+ * Animated by the fire's own `time` uniform, which `FireTSL.update()` drives,
+ * bent by its `wind` and `lean` uniforms and advected by `windDrift`
  *
  * @param octaves - Number of FBM turbulence octaves (baked into the node graph)
  */
 const createSamplerFire = (uniforms: FireUniformNodes, octaves: number) => {
   const turbulence = createTurbulence(octaves)
   return Fn(([p, scaleVec]: [TSLNode, TSLNode]) => {
-    const radius = sqrt(dot(p.xz, p.xz))
-    const st = vec2(radius, p.y).toVar('st')
+    // Local units to flame space, where x and z span [-1, 1]
+    const toFlame = vec3(2.0, 1.0, 2.0)
+
+    // Lean with the wind and motion, increasingly towards the tip
+    const lean = uniforms.wind.add(uniforms.lean).mul(toFlame).mul(p.y.mul(p.y))
+    const leaned = p.sub(vec3(lean.x, 0.0, lean.z)).toVar('leaned')
+
+    const radius = sqrt(dot(leaned.xz, leaned.xz))
+    const st = vec2(radius, leaned.y).toVar('st')
+
+    const sample = vec4(0.0).toVar('fireSample')
 
-    const animP = vec3(p).toVar('animP')
-    const timeOffset = uniforms.seed.add(time).mul(scaleVec.w)
-    animP.y.subAssign(timeOffset)
-    animP.assign(animP.mul(vec3(scaleVec.x, scaleVec.y, scaleVec.z)))
+    // Only samples inside the flame's cylinder can be lifted into the mask
+    const inCylinder = st.x
+      .greaterThan(0.0)
+      .and(st.x.lessThan(1.0))
+      .and(st.y.greaterThan(0.0))
+      .and(st.y.lessThan(1.0))
 
-    const turbulenceValue = turbulence(animP, uniforms.lacunarity, uniforms.gain)
-    st.y.addAssign(sqrt(st.y).mul(uniforms.magnitude).mul(turbulenceValue))
+    If(inCylinder, () => {
+      const animP = vec3(leaned).toVar('animP')
+      const timeOffset = uniforms.seed.add(uniforms.time).mul(scaleVec.w)
+      animP.y.subAssign(timeOffset)
+      animP.subAssign(uniforms.windDrift.mul(toFlame))
+      animP.assign(animP.mul(vec3(scaleVec.x, scaleVec.y, scaleVec.z)))
 
-    const outOfBounds = st.x
-      .lessThanEqual(0.0)
-      .or(st.x.greaterThanEqual(1.0))
-      .or(st.y.lessThanEqual(0.0))
-      .or(st.y.greaterThanEqual(1.0))
+      const turbulenceValue = turbulence(animP, uniforms.lacunarity, uniforms.gain)
+      st.y.addAssign(sqrt(st.y).mul(uniforms.magnitude).mul(turbulenceValue))
 
-    const texSample = texture(uniforms.fireTex, st)
-    return select(outOfBounds, vec4(0.0), texSample)
+      If(st.y.greaterThan(0.0).and(st.y.lessThan(1.0)), () => {
+        sample.assign(texture(uniforms.fireTex, st))
+      })
+    })
+
+    return sample
   })
 }
 
+/**
+ * three.js's `instanceColor`: the instance's color, passed on by the vertex
+ * stage of an `InstancedMesh` (white without `instanceColor`).
+ */
+const instanceColor = varyingProperty('vec3', 'vInstanceColor')
+
+/**
+ * The uniforms as seen by the instance being drawn: its own inverse world
+ * matrix, read from the geometry, and its seed, magnitude, time offset and
+ * color applied on top of the shared values.
+ */
+const perInstance = (u: FireUniformNodes): FireUniformNodes => {
+  const [column0, column1, column2, column3] = INSTANCE_INV_MODEL_MATRIX.map(
+    (name): TSLNode => attribute(name, 'vec4'),
+  )
+  const params: TSLNode = attribute(INSTANCE_FIRE_PARAMS, 'vec3')
+  return {
+    ...u,
+    invModelMatrix: mat4(column0, column1, column2, column3),
+    seed: u.seed.add(params.x),
+    magnitude: u.magnitude.mul(params.y),
+    time: u.time.add(params.z),
+    color: vec3(u.color).mul(instanceColor),
+  }
+}
+
 /**
  * Creates the main fire fragment node for ray marching
  *
  * @param uniforms - Fire shader uniforms
  * @param iterations - Number of ray marching iterations (default: 20)
  * @param octaves - Number of FBM turbulence octaves (default: 3)
+ * @param blackbody - Color by blackbody temperature instead of `color`; a
+ *   `colorRamp` takes precedence (default: false)
+ * @param instanced - Draw every instance of an `InstancedMesh` as its own
+ *   volume, with the per-instance attributes `InstancedFire` keeps on its
+ *   geometry (default: false)
+ * @param earlyExit - End each ray once the density it has gathered reaches
+ *   `densityCutoff` (default: false)
+ * @param jitter - Offset each pixel's samples along its ray by interleaved
+ *   gradient noise, shifted by `jitterFrame` (default: false)
  * @returns TSL node for the fragment shader
  */
 export const createFireFragmentNode = (
   uniforms: FireTSLUniforms,
   iterations: number = 20,
   octaves: number = 3,
+  blackbody: boolean = false,
+  instanced: boolean = false,
+  earlyExit: boolean = false,
+  jitter: boolean = false,
 ) => {
   // Inside shader construction we need the fluent node API, not the `{ value }`
   // view, so widen to the internal node type in this one place.
-  const u = uniforms as unknown as FireUniformNodes
+  const shared = uniforms as unknown as FireUniformNodes
+  const u = instanced ? perInstance(shared) : shared
   const samplerFire = createSamplerFire(u, octaves)
 
   return Fn(() => {
-    const rayPos = vec3(positionWorld).toVar('rayPos')
-    const rayDir = normalize(rayPos.sub(cameraPosition)).toVar('rayDir')
-    const rayLen = float(0.0288).mul(length(u.scale))
+    // Orthographic cameras cast parallel rays along their view direction from
+    // the camera plane; perspective rays fan out from the camera position
+    const isOrthographic = cameraIsOrthographic.greaterThan(0.5)
+    const viewMatrix: TSLNode = cameraViewMatrix
+    const viewForward = vec3(
+      viewMatrix.element(0).z,
+      viewMatrix.element(1).z,
+      viewMatrix.element(2).z,
+    ).negate()
+    const rayDir = select(
+      isOrthographic,
+      viewForward,
+      normalize(positionWorld.sub(cameraPosition)),
+    ).toVar('rayDir')
+    const rayOrigin = select(
+      isOrthographic,
+      positionWorld.sub(rayDir.mul(dot(positionWorld.sub(cameraPosition), rayDir))),
+      cameraPosition,
+    ).toVar('rayOrigin')
+
+    // Clip the view ray to the volume in local space. Distances stay in world
+    // units because the local direction is not renormalised; starting at zero
+    // keeps the march in front of a camera that is inside the volume.
+    const origin = localize(rayOrigin, u.invModelMatrix).toVar('origin')
+    const dir = u.invModelMatrix.mul(vec4(rayDir, 0.0)).xyz.toVar('dir')
+    const bounds = intersectBox(origin, dir).toVar('bounds')
+    const tStart = max(bounds.x, 0.0).toVar('tStart')
+    const stepLen = max(bounds.y.sub(tStart), 0.0).div(iterations).toVar('stepLen')
+
+    // Weight each sample by the local distance it covers, so brightness does
+    // not depend on the iteration count.
+    const stepWeight = stepLen.mul(length(dir)).mul(DENSITY_PER_UNIT).toVar('stepWeight')
+
+    // Where within its step each sample sits: the middle, or a per-pixel offset
+    // so neighbouring pixels sample different slices
+    const stepOffset = jitter
+      ? interleavedGradientNoise(screenCoordinate.xy, u.jitterFrame).toVar('stepOffset')
+      : float(0.5)
 
     const col = vec4(0.0).toVar('col')
+    const surfaceDepth = u.depthTexture ? sceneDepth(u.depthTexture).toVar('surfaceDepth') : null
 
-    Loop(iterations, () => {
-      rayPos.addAssign(rayDir.mul(rayLen))
+    Loop(iterations, ({ i }: { i: TSLNode }) => {
+      const t = tStart.add(float(i).add(stepOffset).mul(stepLen)).toVar('t')
+      const depthFade = float(1.0).toVar('depthFade')
 
-      const lp = localize(rayPos, u.invModelMatrix).toVar('lp')
+      if (surfaceDepth) {
+        // Stop at the first opaque surface and fade out just in front of it
+        const rayPos = rayOrigin.add(rayDir.mul(t))
+        const sampleDepth = cameraViewMatrix.mul(vec4(rayPos, 1.0)).z.negate()
+        depthFade.assign(
+          clamp(surfaceDepth.sub(sampleDepth).div(max(u.depthSoftness, 1e-4)), 0.0, 1.0),
+        )
+        If(depthFade.lessThanEqual(0.0), () => {
+          Break()
+        })
+      }
+
+      const lp = origin.add(dir.mul(t)).toVar('lp')
       lp.y.addAssign(0.5)
       lp.x.mulAssign(2.0)
       lp.z.mulAssign(2.0)
 
-      col.addAssign(samplerFire(lp, u.noiseScale))
+      col.addAssign(samplerFire(lp, u.noiseScale).mul(depthFade).mul(stepWeight))
+
+      if (earlyExit) {
+        // Little of the ray beyond shows through a core this dense
+        If(col.x.greaterThanEqual(u.densityCutoff), () => {
+          Break()
+        })
+      }
     })
 
-    const colorVec = vec3(u.color)
-    col.x.mulAssign(colorVec.x)
-    col.y.mulAssign(colorVec.y)
-    col.z.mulAssign(colorVec.z)
+    if (u.colorRamp) {
+      // Color by accumulated density: thin edges from the start of the ramp,
+      // the dense core from its end
+      const density = col.x.toVar('density')
+      const rampColor = texture(u.colorRamp, vec2(clamp(density, 0.0, 1.0), 0.5)).rgb
+      col.xyz.assign(rampColor.mul(density))
+    } else if (blackbody) {
+      // Denser flame burns hotter
+      const density = col.x.toVar('density')
+      const kelvin = mix(u.minTemperature, u.maxTemperature, clamp(density, 0.0, 1.0))
+      col.xyz.assign(blackbodyColor(kelvin).mul(density))
+    } else {
+      const colorVec = vec3(u.color)
+      col.x.mulAssign(colorVec.x)
+      col.y.mulAssign(colorVec.y)
+      col.z.mulAssign(colorVec.z)
+    }
     col.w.assign(col.x)
 
     return col
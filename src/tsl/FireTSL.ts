@@ -5,33 +5,27 @@
  * and node-based shaders for WebGPU compatibility.
  */
 
-import { BoxGeometry, type Texture, Color } from 'three'
+import type { Texture, DepthTexture } from 'three'
 import { MeshBasicNodeMaterial } from 'three/webgpu'
+import { createFireUniforms, type FireTSLUniforms } from './FireShaderTSL'
+import { acquireFireNode, fireNodeKey, releaseFireNode } from './sharedFireNodes'
 import {
-  createFireUniforms,
-  createFireFragmentNode,
-  type FireTSLConfig,
-  type FireTSLUniforms,
-} from './FireShaderTSL'
-import { AbstractFire } from '../internal/AbstractFire'
+  AbstractFire,
+  randomSeed,
+  resolveFireOptions,
+  type FireOptions,
+} from '../internal/AbstractFire'
+import { acquireUnitBox } from '../internal/sharedResources'
+import { perlinNoise } from '../internal/noise'
 
-export interface FireTSLProps {
+export interface FireTSLProps extends FireOptions {
   /** Fire texture (grayscale mask defining fire shape) */
   fireTex: Texture
-  /** Fire color tint (default: 0xeeeeee) */
-  color?: Color | string | number
-  /** Ray marching iterations - higher = better quality, lower performance (default: 20) */
-  iterations?: number
-  /** Noise octaves for turbulence (default: 3) */
-  octaves?: number
-  /** Noise scaling parameters [x, y, z, time] (default: [1, 2, 1, 0.3]) */
-  noiseScale?: [number, number, number, number]
-  /** Fire shape intensity (default: 1.3) */
-  magnitude?: number
-  /** Noise lacunarity - frequency multiplier (default: 2.0) */
-  lacunarity?: number
-  /** Noise gain - amplitude multiplier (default: 0.5) */
-  gain?: number
+  /**
+   * Scene depth texture. When set, rays stop at opaque geometry and the fire
+   * softly fades where it meets it (default: none — fire draws over everything)
+   */
+  depthTexture?: DepthTexture | null
 }
 
 /**
@@ -62,46 +56,76 @@ export interface FireTSLProps {
  */
 export class FireTSL extends AbstractFire<MeshBasicNodeMaterial> {
   private uniforms: FireTSLUniforms
+  /** Key of the shared fragment node the material draws with. */
+  private nodeKey: string | null = null
+  protected readonly noise = perlinNoise
 
   /**
    * Creates a new FireTSL instance
    *
    * @param props - Configuration options for the fire effect
    */
-  constructor({
-    fireTex,
-    color = 0xeeeeee,
-    iterations = 20,
-    octaves = 3,
-    noiseScale = [1, 2, 1, 0.3],
-    magnitude = 1.3,
-    lacunarity = 2.0,
-    gain = 0.5,
-  }: FireTSLProps) {
-    const geometry = new BoxGeometry(1, 1, 1)
-
-    const config: FireTSLConfig = {
-      fireTex,
-      color: color instanceof Color ? color : new Color(color),
-      noiseScale,
-      magnitude,
-      lacunarity,
-      gain,
-    }
-    const uniforms = createFireUniforms(config)
+  constructor(props: FireTSLProps) {
+    const { fireTex, depthTexture = null } = props
+    const options = resolveFireOptions(props)
+    const seed = props.seed ?? randomSeed()
+    // The variant is built in; every other option is set by applyOptions()
+    const { iterations, octaves, blackbody, densityCutoff, jitter } = options
+    const uniforms = createFireUniforms({ fireTex, depthTexture })
 
     const material = new MeshBasicNodeMaterial()
-    material.fragmentNode = createFireFragmentNode(uniforms, iterations, octaves)
     material.transparent = true
     material.depthWrite = false
     material.depthTest = false
 
-    super(geometry, material)
+    super(acquireUnitBox(), material, {
+      iterations,
+      octaves,
+      blackbody,
+      earlyExit: densityCutoff !== null,
+      jitter,
+    })
 
     this.uniforms = uniforms
+    // applyOptions() sets the color ramp, part of the node's key, before
+    // anything else that switches the node
+    this.applyOptions({ ...options, seed })
+    this.applyVariant()
   }
 
   protected getUniforms(): FireTSLUniforms {
     return this.uniforms
   }
+
+  protected getFireTexture(): Texture {
+    return this.uniforms.fireTex
+  }
+
+  /**
+   * Switches the material to the shared fragment node of the current variant,
+   * built only if no other fire uses it yet.
+   */
+  protected applyVariant(): void {
+    const instanced = this.instances !== null
+    const key = fireNodeKey(this.uniforms, this.variant, instanced)
+    if (key === this.nodeKey) return
+
+    this.material.fragmentNode = acquireFireNode(this, this.uniforms, key, this.variant, instanced)
+    if (this.nodeKey !== null) releaseFireNode(this.nodeKey)
+    this.nodeKey = key
+    this.material.needsUpdate = true
+  }
+
+  protected applyColorRamp(texture: Texture | null): void {
+    if (texture === this.uniforms.colorRamp) return
+    this.uniforms.colorRamp = texture
+    this.applyVariant()
+  }
+
+  /** Releases the fire's share of the geometry and shader, and its material. */
+  public dispose(): void {
+    super.dispose()
+    if (this.nodeKey !== null) releaseFireNode(this.nodeKey)
+    this.nodeKey = null
+  }
 }
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview React Three Fiber component for many TSL fires in one draw call
+ *
+ * WebGPU-compatible version using Three.js Shading Language (TSL).
+ * Provides the same API as the GLSL FiresComponent but with TSL backend.
+ */
+
+import type React from 'react'
+import { useRef, useMemo, forwardRef } from 'react'
+import { extend, useLoader } from '@react-three/fiber'
+import { InstancedFireTSL, type InstancedFireTSLProps } from './InstancedFireTSL'
+import { TextureLoader, type DepthTexture, type Texture } from 'three'
+import { useFireBindings } from '../internal/useFireBindings'
+import { FireInstancesContext, useFireInstances } from '../internal/useFireInstances'
+import { useFireArgs, useFireOptions, useLiveFireProps } from '../internal/useFireProps'
+import type { FireOptions } from '../internal/AbstractFire'
+
+declare module '@react-three/fiber' {
+  interface ThreeElements {
+    instancedFireTSL: Omit<ThreeElements['mesh'], 'args'> & { args?: [InstancedFireTSLProps] }
+  }
+}
+
+let extended = false
+function ensureExtended() {
+  if (!extended) {
+    extend({ InstancedFireTSL })
+    extended = true
+  }
+}
+
+/**
+ * Props for the Fires TSL React component
+ */
+export interface FiresProps extends Omit<InstancedFireTSLProps, 'fireTex' | 'count'> {
+  /** Fire texture URL or Three.js Texture object */
+  texture: string | Texture
+  /** Maximum number of `<FireInstance>`s drawn; changing it rebuilds the mesh (default: 1000) */
+  limit?: number
+  /** Auto-update time from useFrame (default: true) */
+  autoUpdate?: boolean
+  /** Custom update function called each frame */
+  onUpdate?: (fire: InstancedFireTSL, time: number) => void
+  /** `<FireInstance>`s and other child components */
+  children?: React.ReactNode
+  /** Position in 3D space */
+  position?: [number, number, number]
+  /** Rotation in radians */
+  rotation?: [number, number, number]
+  /** Scale factor (uniform or per-axis) */
+  scale?: [number, number, number] | number
+}
+
+/**
+ * Ref interface for imperative control of a fire group
+ */
+export interface FiresRef {
+  /** Instanced fire mesh */
+  fire: InstancedFireTSL | null
+  /** Update fire animation manually */
+  update: (time?: number) => void
+}
+
+/** Props that can only be applied by constructing a new mesh. */
+type ConstructProps = {
+  depthTexture: DepthTexture | null
+  count: number
+}
+
+type LeafProps = {
+  constructProps: ConstructProps
+  options: FireOptions
+  fireRef: React.Ref<InstancedFireTSL>
+  forwarded: Record<string, unknown>
+  children?: React.ReactNode
+}
+
+function FiresFromUrl({ url, ...props }: LeafProps & { url: string }) {
+  const texture = useLoader(TextureLoader, url)
+  return <FiresFromTexture texture={texture} {...props} />
+}
+
+/**
+ * Leaf renderer for a pre-loaded Texture object. No loader hook runs here.
+ */
+function FiresFromTexture({
+  texture,
+  constructProps,
+  options,
+  fireRef,
+  forwarded,
+  children,
+}: LeafProps & { texture: Texture }) {
+  const args = useFireArgs(texture, constructProps, options)
+  return (
+    <instancedFireTSL ref={fireRef} args={args} {...forwarded}>
+      {children}
+    </instancedFireTSL>
+  )
+}
+
+/**
+ * React Three Fiber component drawing many fires in one draw call (TSL/WebGPU version)
+ *
+ * Every `<FireInstance>` below it is one fire, with its own transform, seed,
+ * color, magnitude and time offset; all other parameters are shared and
+ * behave as on `<Fire>`. Instances are placed relative to the group.
+ *
+ * @example
+ * ```tsx
+ * import { Fires, FireInstance } from '@wolffo/three-fire/tsl/react'
+ *
+ * <Fires texture="/fire.png" limit={400} color="orange">
+ *   {braziers.map((position, i) => (
+ *     <FireInstance key={i} position={position} magnitude={0.8 + (i % 3) * 0.2} />
+ *   ))}
+ * </Fires>
+ * ```
+ */
+export const FiresComponent = forwardRef<FiresRef, FiresProps>(
+  (
+    { texture, limit = 1000, depthTexture = null, autoUpdate = true, onUpdate, children, ...props },
+    ref,
+  ) => {
+    ensureExtended()
+    const fireRef = useRef<InstancedFireTSL>(null)
+    const [options, forwarded] = useFireOptions(props)
+    const constructProps = useMemo(() => ({ depthTexture, count: limit }), [depthTexture, limit])
+
+    useLiveFireProps(fireRef, options)
+    const registry = useFireInstances(fireRef)
+    useFireBindings(ref, fireRef, autoUpdate, onUpdate)
+
+    const leaf =
+      typeof texture === 'string' ? (
+        <FiresFromUrl
+          url={texture}
+          constructProps={constructProps}
+          options={options}
+          fireRef={fireRef}
+          forwarded={forwarded}
+        >
+          {children}
+        </FiresFromUrl>
+      ) : (
+        <FiresFromTexture
+          texture={texture}
+          constructProps={constructProps}
+          options={options}
+          fireRef={fireRef}
+          forwarded={forwarded}
+        >
+          {children}
+        </FiresFromTexture>
+      )
+
+    return <FireInstancesContext.Provider value={registry}>{leaf}</FireInstancesContext.Provider>
+  },
+)
+
+FiresComponent.displayName = 'Fires'
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview TSL InstancedFire class for vanilla Three.js with WebGPU support
+ *
+ * The TSL equivalent of the GLSL InstancedFire: many fires, one draw call.
+ */
+
+import { FireTSL, type FireTSLProps } from './FireTSL'
+import { withFireInstances } from '../internal/FireInstances'
+
+/**
+ * Properties for creating an InstancedFireTSL
+ */
+export interface InstancedFireTSLProps extends FireTSLProps {
+  /** Maximum number of fires drawn; `count` can be lowered later */
+  count: number
+}
+
+/**
+ * Many volumetric fires drawn in a single call, using TSL (WebGPU)
+ *
+ * Works like a three.js `InstancedMesh`: each instance has its own transform,
+ * set with {@link setMatrixAt}, and its own seed, magnitude, time offset and
+ * color tint on top of the fire's shared parameters. Everything else — the
+ * texture, noise, wind, time and quality settings — is shared by all
+ * instances. The shader marches every instance through its own inverse world
+ * matrix, which `update()` refreshes each frame, so move instances before
+ * calling it.
+ *
+ * Wind, the flame trail of a moving fire and {@link flameDirection} act in
+ * the frame of the whole `InstancedFire`, so they look right for instances
+ * that are moved and uniformly scaled but not rotated.
+ *
+ * @example
+ * ```ts
+ * import { InstancedFire } from '@wolffo/three-fire/tsl/vanilla'
+ *
+ * const braziers = new InstancedFire({ fireTex: texture, count: 400 })
+ * const matrix = new Matrix4()
+ * positions.forEach((position, i) => {
+ *   braziers.setMatrixAt(i, matrix.makeTranslation(position))
+ *   braziers.setTimeOffsetAt(i, Math.random() * 10)
+ * })
+ * scene.add(braziers)
+ *
+ * // In animation loop
+ * braziers.update(time)
+ * ```
+ */
+export class InstancedFireTSL extends withFireInstances(FireTSL) {
+  /**
+   * Creates a new InstancedFireTSL
+   *
+   * @param props - Fire options plus the number of instances
+   */
+  constructor(props: InstancedFireTSLProps) {
+    super(props)
+    // Switch to the fragment node for per-instance volumes
+    this.applyVariant()
+  }
+}
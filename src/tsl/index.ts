@@ -44,6 +44,11 @@
 // Vanilla Three.js exports
 /** Fire mesh class for vanilla Three.js usage (TSL version) */
 export { FireTSL as FireMesh, type FireTSLProps as FireMeshProps } from './FireTSL'
+/** Many fires drawn in one call, for vanilla Three.js usage (TSL version) */
+export {
+  InstancedFireTSL as InstancedFire,
+  type InstancedFireTSLProps as InstancedFireProps,
+} from './InstancedFireTSL'
 /** Fire shader definition and uniforms (TSL version) */
 export {
   createFireUniforms,
@@ -51,11 +56,63 @@ export {
   type FireTSLConfig,
   type FireTSLUniforms,
 } from './FireShaderTSL'
+/** Color ramp helpers for density-based fire gradients */
+export { createColorRampTexture, type ColorRamp, type ColorStop } from '../colorRamp'
+/** Raycast hit reported by a fire with a `raycastThreshold` */
+export type { FireIntersection } from '../internal/AbstractFire'
+/** Level of detail picked from a fire's size on screen */
+export type { FireLodLevel, FireOptions } from '../internal/AbstractFire'
+/** Point light that flickers with a fire */
+export { FireLight, type FireLightProps as FireLightObjectProps } from '../FireLight'
+/** Wind field shared by any number of fires */
+export { FireWind, type FireWindProps } from '../FireWind'
+/** Frame-rate governor trading the quality of all fires */
+export {
+  FireQualityManager,
+  type FireQualityManagerProps,
+  type FireQualityTier,
+  type FireQualityChangeEvent,
+} from '../FireQualityManager'
+/** Pre-allocated fires for short-lived effects */
+export {
+  FirePool,
+  type FirePoolOptions,
+  type FireSpawnOptions,
+  type FireCompiler,
+} from '../FirePool'
+/** Reduced-resolution rendering of a scene's fires (TSL version) */
+export { FireOffscreenPassTSL as FireOffscreenPass } from './FireOffscreenPassTSL'
+export type { FireOffscreenPassOptions } from '../internal/AbstractFirePass'
 
 // React Three Fiber exports
 /** React component for fire effect (TSL version) */
 export { FireComponent, useFire, type FireRef, type FireProps } from './FireComponentTSL'
+/** React components drawing many fires in one call (TSL version) */
+export { FiresComponent, type FiresProps, type FiresRef } from './FiresComponentTSL'
+export { FireInstance, type FireInstanceProps } from '../FireInstance'
+/** React component for a light that flickers with its fire */
+export { FireLightComponent, type FireLightProps } from '../FireLightComponent'
+/** Context provider sharing a wind field with the fires below it */
+export {
+  FireWindProvider,
+  useFireWind,
+  type FireWindProviderProps,
+} from '../FireWindProvider'
+/** Context provider holding a frame rate for the fires below it */
+export {
+  FireQualityProvider,
+  useFireQuality,
+  useFireQualityManager,
+  type FireQualityProviderProps,
+} from '../FireQualityProvider'
+/** React component drawing the scene's fires at reduced resolution (TSL version) */
+export {
+  FireOffscreenPassComponent,
+  type FireOffscreenPassProps,
+} from './FireOffscreenPassComponentTSL'
 
 // Default export (React component)
 /** Default Fire component for React Three Fiber (TSL version) */
 export { FireComponent as Fire } from './FireComponentTSL'
+/** Fire group component for React Three Fiber (TSL version) */
+export { FiresComponent as Fires } from './FiresComponentTSL'
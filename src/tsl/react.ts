@@ -23,3 +23,23 @@
 
 // Export React Three Fiber components and hooks only
 export { FireComponent as Fire, useFire, type FireRef, type FireProps } from './FireComponentTSL'
+export { FiresComponent as Fires, type FiresProps, type FiresRef } from './FiresComponentTSL'
+export { FireInstance, type FireInstanceProps } from '../FireInstance'
+export { FireLightComponent as FireLight, type FireLightProps } from '../FireLightComponent'
+export {
+  FireWindProvider,
+  useFireWind,
+  type FireWindProviderProps,
+} from '../FireWindProvider'
+export {
+  FireQualityProvider,
+  useFireQuality,
+  useFireQualityManager,
+  type FireQualityProviderProps,
+} from '../FireQualityProvider'
+export {
+  FireOffscreenPassComponent as FireOffscreenPass,
+  type FireOffscreenPassProps,
+} from './FireOffscreenPassComponentTSL'
+export type { ColorRamp, ColorStop } from '../colorRamp'
+export type { FireIntersection, FireLodLevel, FireOptions } from '../internal/AbstractFire'
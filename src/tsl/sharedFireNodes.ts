@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Fragment node graphs shared by every TSL fire of a variant
+ *
+ * WebGPU builds and compiles a node material once per distinct node graph, so
+ * fires that each built their own graph each paid for a build. Fires with the
+ * same variant draw with one cached graph instead, whose uniforms are filled
+ * in from the fire being drawn, object by object.
+ */
+
+import type { Object3D } from 'three'
+import { createFireUniforms, createFireFragmentNode, type FireTSLUniforms } from './FireShaderTSL'
+import type { FireVariant } from '../internal/AbstractFire'
+import { RefCountedCache } from '../internal/sharedResources'
+
+// biome-ignore lint/suspicious/noExplicitAny: TSL's proxy node API isn't statically typeable
+type TSLNode = any
+
+/** The uniforms that are values; the textures are part of the graph's key. */
+const VALUE_KEYS = [
+  'color',
+  'time',
+  'seed',
+  'invModelMatrix',
+  'scale',
+  'noiseScale',
+  'magnitude',
+  'lacunarity',
+  'gain',
+  'depthSoftness',
+  'minTemperature',
+  'maxTemperature',
+  'wind',
+  'windDrift',
+  'lean',
+  'densityCutoff',
+  'jitterFrame',
+] as const satisfies readonly (keyof FireTSLUniforms)[]
+
+/** Each fire's own uniforms, looked up while it is being drawn. */
+const fireUniforms = new WeakMap<Object3D, FireTSLUniforms>()
+
+const graphs = new RefCountedCache<TSLNode>()
+
+/**
+ * Uniforms sharing the textures of `template` whose values are taken, for each
+ * object drawn, from the uniforms registered for it with
+ * {@link acquireFireNode}.
+ */
+export const createObjectUniforms = (template: FireTSLUniforms): FireTSLUniforms => {
+  const uniforms = createFireUniforms({
+    fireTex: template.fireTex,
+    depthTexture: template.depthTexture,
+    colorRamp: template.colorRamp,
+  })
+  for (const key of VALUE_KEYS) {
+    ;(uniforms[key] as TSLNode).onObjectUpdate(
+      ({ object }: { object: Object3D }) => fireUniforms.get(object)?.[key].value,
+    )
+  }
+  return uniforms
+}
+
+/**
+ * Key of the graph a fire draws with: its variant plus the textures baked
+ * into the graph.
+ */
+export const fireNodeKey = (
+  uniforms: FireTSLUniforms,
+  variant: FireVariant,
+  instanced: boolean,
+): string =>
+  [
+    variant.iterations,
+    variant.octaves,
+    variant.blackbody ? 'blackbody' : 'tint',
+    variant.earlyExit ? 'earlyExit' : 'fullMarch',
+    variant.jitter ? 'jitter' : 'centered',
+    instanced ? 'instanced' : 'single',
+    uniforms.fireTex.id,
+    uniforms.depthTexture?.id ?? 'noDepth',
+    uniforms.colorRamp?.id ?? 'noRamp',
+  ].join(':')
+
+/**
+ * Returns the shared fragment node for `key`, building it on first use, and
+ * has it draw `fire` with `uniforms`. Pair every call with a
+ * {@link releaseFireNode}.
+ */
+export const acquireFireNode = (
+  fire: Object3D,
+  uniforms: FireTSLUniforms,
+  key: string,
+  variant: FireVariant,
+  instanced: boolean,
+): TSLNode => {
+  fireUniforms.set(fire, uniforms)
+  return graphs.acquire(key, () =>
+    createFireFragmentNode(
+      createObjectUniforms(uniforms),
+      variant.iterations,
+      variant.octaves,
+      variant.blackbody,
+      instanced,
+      variant.earlyExit,
+      variant.jitter,
+    ),
+  )
+}
+
+/**
+ * Drops a fire's use of the graph for `key`, forgetting the graph after its
+ * last user. The compiled shader itself is freed by three.js once no material
+ * draws with it.
+ */
+export const releaseFireNode = (key: string): void => {
+  graphs.release(key)
+}
@@ -17,9 +17,31 @@
 
 // Export vanilla Three.js classes only
 export { FireTSL as FireMesh, type FireTSLProps as FireMeshProps } from './FireTSL'
+export {
+  InstancedFireTSL as InstancedFire,
+  type InstancedFireTSLProps as InstancedFireProps,
+} from './InstancedFireTSL'
 export {
   createFireUniforms,
   createFireFragmentNode,
   type FireTSLConfig,
   type FireTSLUniforms,
 } from './FireShaderTSL'
+export { createColorRampTexture, type ColorRamp, type ColorStop } from '../colorRamp'
+export type { FireIntersection, FireLodLevel, FireOptions } from '../internal/AbstractFire'
+export { FireLight, type FireLightProps } from '../FireLight'
+export { FireWind, type FireWindProps } from '../FireWind'
+export {
+  FireQualityManager,
+  type FireQualityManagerProps,
+  type FireQualityTier,
+  type FireQualityChangeEvent,
+} from '../FireQualityManager'
+export {
+  FirePool,
+  type FirePoolOptions,
+  type FireSpawnOptions,
+  type FireCompiler,
+} from '../FirePool'
+export { FireOffscreenPassTSL as FireOffscreenPass } from './FireOffscreenPassTSL'
+export type { FireOffscreenPassOptions } from '../internal/AbstractFirePass'
@@ -16,4 +16,23 @@
 
 // Export vanilla Three.js classes only
 export { Fire as FireMesh, type FireProps as FireMeshProps } from './Fire'
+export { InstancedFire, type InstancedFireProps } from './InstancedFire'
 export { FireShader, type FireShaderUniforms } from './FireShader'
+export { createColorRampTexture, type ColorRamp, type ColorStop } from './colorRamp'
+export type { FireIntersection, FireLodLevel, FireOptions } from './internal/AbstractFire'
+export { FireLight, type FireLightProps } from './FireLight'
+export { FireWind, type FireWindProps } from './FireWind'
+export {
+  FireQualityManager,
+  type FireQualityManagerProps,
+  type FireQualityTier,
+  type FireQualityChangeEvent,
+} from './FireQualityManager'
+export {
+  FirePool,
+  type FirePoolOptions,
+  type FireSpawnOptions,
+  type FireCompiler,
+} from './FirePool'
+export { FireOffscreenPass, type FireCompositeUniforms } from './FireOffscreenPass'
+export type { FireOffscreenPassOptions } from './internal/AbstractFirePass'
@@ -1,6 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { Fire } from '../src/Fire'
-import { Color, Texture, LinearFilter, ClampToEdgeWrapping } from 'three'
+import {
+  Color,
+  Texture,
+  DataTexture,
+  DepthTexture,
+  LinearFilter,
+  ClampToEdgeWrapping,
+  PerspectiveCamera,
+  OrthographicCamera,
+  Scene,
+  type Vector2,
+  Vector3,
+  Vector4,
+  BackSide,
+  FrontSide,
+  type WebGLRenderer,
+} from 'three'
 
 describe('Fire class', () => {
   let mockTexture: Texture
@@ -99,6 +115,13 @@ describe('Fire class', () => {
       // Seeds should be different (statistically very likely)
       expect(fire1.material.uniforms.seed.value).not.toBe(fire2.material.uniforms.seed.value)
     })
+
+    it('uses an explicit seed', () => {
+      const fire = new Fire({ fireTex: mockTexture, seed: 4.2 })
+
+      expect(fire.material.uniforms.seed.value).toBe(4.2)
+      expect(fire.seed).toBe(4.2)
+    })
   })
 
   describe('update method', () => {
@@ -127,6 +150,53 @@ describe('Fire class', () => {
       expect(scaleCopySpy).toHaveBeenCalledWith(fire.scale)
     })
 
+    it('renders back faces while the camera is inside the volume', () => {
+      const camera = new PerspectiveCamera(50, 1, 0.1, 100)
+      camera.position.set(0, 0, 0.2)
+      camera.updateMatrixWorld()
+
+      fire.update(1.0, camera)
+      expect(fire.material.side).toBe(BackSide)
+
+      camera.position.set(0, 0, 5)
+      camera.updateMatrixWorld()
+      fire.update(1.0, camera)
+      expect(fire.material.side).toBe(FrontSide)
+    })
+
+    it('treats a camera whose near plane clips the box as inside', () => {
+      const camera = new PerspectiveCamera(50, 1, 0.5, 100)
+      camera.position.set(0, 0, 0.8)
+      camera.updateMatrixWorld()
+
+      fire.update(1.0, camera)
+      expect(fire.material.side).toBe(BackSide)
+    })
+
+    it('accounts for the fire transform when detecting the camera', () => {
+      const camera = new PerspectiveCamera(50, 1, 0.01, 100)
+      camera.position.set(10, 1, 0)
+      camera.updateMatrixWorld()
+
+      fire.position.set(10, 0, 0)
+      fire.scale.set(1, 4, 1)
+      fire.update(1.0, camera)
+      expect(fire.material.side).toBe(BackSide)
+    })
+
+    it('falls back to the most recently rendered camera', () => {
+      const camera = new PerspectiveCamera(50, 1, 0.1, 100)
+      camera.updateMatrixWorld()
+      const renderer = {
+        getRenderTarget: () => null,
+        getDrawingBufferSize: (size: Vector2) => size.set(1, 1),
+      } as unknown as WebGLRenderer
+
+      fire.onBeforeRender(renderer, new Scene(), camera)
+      fire.update(1.0)
+      expect(fire.material.side).toBe(BackSide)
+    })
+
     it('works without time parameter', () => {
       fire.time = 2.0
       fire.update()
@@ -149,6 +219,89 @@ describe('Fire class', () => {
       expect(fire.time).toBe(3.14)
       expect(fire.material.uniforms.time.value).toBe(3.14)
     })
+
+    it('advances by clock deltas scaled by timeScale', () => {
+      fire.update(1.0)
+      fire.timeScale = 0.5
+      fire.update(3.0)
+
+      expect(fire.time).toBe(2.0)
+      expect(fire.material.uniforms.time.value).toBe(2.0)
+    })
+
+    it('holds still while paused and resumes without a jump', () => {
+      fire.update(1.0)
+      fire.paused = true
+      fire.update(4.0)
+      expect(fire.time).toBe(1.0)
+
+      fire.paused = false
+      fire.update(4.5)
+      expect(fire.time).toBe(1.5)
+    })
+
+    it('adds timeOffset to the uniform only', () => {
+      fire.update(2.0)
+      fire.timeOffset = 10
+
+      expect(fire.time).toBe(2.0)
+      expect(fire.material.uniforms.time.value).toBe(12.0)
+    })
+
+    it('accepts time controls as constructor options', () => {
+      const configured = new Fire({
+        fireTex: mockTexture,
+        paused: true,
+        timeScale: 2,
+        timeOffset: 0.5,
+      })
+
+      expect(configured.paused).toBe(true)
+      expect(configured.timeScale).toBe(2)
+      expect(configured.material.uniforms.time.value).toBe(0.5)
+    })
+  })
+
+  describe('wind', () => {
+    it('is still air by default', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      fire.update(1.0)
+
+      expect(fire.wind.toArray()).toEqual([0, 0, 0])
+      expect(fire.material.uniforms.wind.value.toArray()).toEqual([0, 0, 0])
+      expect(fire.material.uniforms.windDrift.value.toArray()).toEqual([0, 0, 0])
+    })
+
+    it('hands the shader the wind in local space', () => {
+      const fire = new Fire({ fireTex: mockTexture, wind: [1, 0, 0] })
+      fire.rotation.y = Math.PI / 2
+      fire.scale.set(2, 2, 2)
+      fire.update()
+
+      const local = fire.material.uniforms.wind.value
+      expect(local.x).toBeCloseTo(0)
+      expect(local.z).toBeCloseTo(0.5)
+    })
+
+    it('accepts vectors and arrays', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      fire.wind = new Vector3(0, 0, 2)
+      expect(fire.material.uniforms.wind.value.toArray()).toEqual([0, 0, 2])
+
+      fire.wind = [1, 0, 0]
+      expect(fire.wind.toArray()).toEqual([1, 0, 0])
+    })
+
+    it('drifts the noise over the fire timeline', () => {
+      const fire = new Fire({ fireTex: mockTexture, wind: [0.5, 0, 0] })
+      fire.update(1.0)
+      fire.timeScale = 2
+      fire.update(2.0)
+      fire.paused = true
+      fire.update(5.0)
+
+      expect(fire.material.uniforms.windDrift.value.x).toBeCloseTo(1.5)
+    })
   })
 
   describe('fireColor property', () => {
@@ -197,6 +350,29 @@ describe('Fire class', () => {
     })
   })
 
+  describe('seed property', () => {
+    it('gets and sets seed', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      fire.seed = 7.5
+      expect(fire.seed).toBe(7.5)
+      expect(fire.material.uniforms.seed.value).toBe(7.5)
+    })
+  })
+
+  describe('noiseScale property', () => {
+    it('gets the uniform vector and sets from a tuple or Vector4', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      const vector = fire.material.uniforms.noiseScale.value
+
+      fire.noiseScale = [2, 3, 4, 0.5]
+      expect(fire.noiseScale).toBe(vector)
+      expect(vector.toArray()).toEqual([2, 3, 4, 0.5])
+
+      fire.noiseScale = new Vector4(1, 1, 1, 1)
+      expect(vector.toArray()).toEqual([1, 1, 1, 1])
+    })
+  })
+
   describe('lacunarity property', () => {
     let fire: Fire
 
@@ -225,6 +401,280 @@ describe('Fire class', () => {
     })
   })
 
+  describe('iterations and octaves properties', () => {
+    let fire: Fire
+
+    beforeEach(() => {
+      fire = new Fire({ fireTex: mockTexture, iterations: 20, octaves: 3 })
+    })
+
+    it('reports the constructed values', () => {
+      expect(fire.iterations).toBe(20)
+      expect(fire.octaves).toBe(3)
+    })
+
+    it('rewrites the defines and flags the material for recompilation', () => {
+      const version = fire.material.version
+
+      fire.iterations = 12
+      fire.octaves = 2
+
+      expect(fire.iterations).toBe(12)
+      expect(fire.octaves).toBe(2)
+      expect(fire.material.defines?.ITERATIONS).toBe('12')
+      expect(fire.material.defines?.OCTAVES).toBe('2')
+      expect(fire.material.version).toBeGreaterThan(version)
+    })
+
+    it('preserves uniform state, seed and time', () => {
+      const material = fire.material
+      const seed = fire.material.uniforms.seed.value
+      fire.update(4.2)
+      fire.magnitude = 2.1
+      fire.fireColor = 0x123456
+
+      fire.iterations = 8
+
+      expect(fire.material).toBe(material)
+      expect(fire.material.uniforms.seed.value).toBe(seed)
+      expect(fire.time).toBe(4.2)
+      expect(fire.magnitude).toBe(2.1)
+      expect(fire.fireColor.getHex()).toBe(0x123456)
+    })
+
+    it('skips recompilation when the value is unchanged', () => {
+      const version = fire.material.version
+      fire.iterations = 20
+      fire.octaves = 3
+      expect(fire.material.version).toBe(version)
+    })
+  })
+
+  describe('colorRamp property', () => {
+    const stops: [number, number][] = [
+      [0, 0x440000],
+      [1, 0xffffcc],
+    ]
+
+    it('keeps the single tint by default', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+
+      expect(fire.colorRamp).toBeNull()
+      expect(fire.material.defines?.USE_COLOR_RAMP).toBeUndefined()
+      expect(fire.material.uniforms.colorRamp.value).toBeNull()
+    })
+
+    it('bakes color stops and enables the ramp define', () => {
+      const fire = new Fire({ fireTex: mockTexture, colorRamp: stops })
+
+      expect(fire.material.defines?.USE_COLOR_RAMP).toBeDefined()
+      expect(fire.material.uniforms.colorRamp.value).toBeInstanceOf(DataTexture)
+    })
+
+    it('refills the baked texture without recompiling when the stops change', () => {
+      const fire = new Fire({ fireTex: mockTexture, colorRamp: stops })
+      const texture = fire.material.uniforms.colorRamp.value
+      const version = fire.material.version
+
+      fire.colorRamp = [[0, 'red']]
+
+      expect(fire.material.uniforms.colorRamp.value).toBe(texture)
+      expect(fire.material.version).toBe(version)
+    })
+
+    it('rejects a ramp without stops and keeps the current one', () => {
+      const fire = new Fire({ fireTex: mockTexture, colorRamp: stops })
+      const texture = fire.material.uniforms.colorRamp.value as Texture
+      const version = texture.version
+
+      expect(() => {
+        fire.colorRamp = []
+      }).toThrow('colorRamp: at least one color stop is required')
+      expect(fire.colorRamp).toHaveLength(2)
+      expect(fire.material.defines?.USE_COLOR_RAMP).toBeDefined()
+      expect(fire.material.uniforms.colorRamp.value).toBe(texture)
+      expect(texture.version).toBe(version)
+
+      const plain = new Fire({ fireTex: mockTexture })
+      expect(() => {
+        plain.colorRamp = []
+      }).toThrow()
+      expect(plain.colorRamp).toBeNull()
+      expect(plain.material.defines?.USE_COLOR_RAMP).toBeUndefined()
+    })
+
+    it('ignores an equal stop array', () => {
+      const fire = new Fire({ fireTex: mockTexture, colorRamp: stops })
+      const texture = fire.material.uniforms.colorRamp.value as Texture
+      const version = texture.version
+
+      fire.colorRamp = stops.map(([offset, color]) => [offset, color])
+
+      expect(texture.version).toBe(version)
+    })
+
+    it('uses a gradient texture as is and recompiles when toggled', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      const gradient = new Texture()
+      const version = fire.material.version
+
+      fire.colorRamp = gradient
+      expect(fire.material.uniforms.colorRamp.value).toBe(gradient)
+      expect(fire.material.version).toBeGreaterThan(version)
+
+      fire.colorRamp = null
+      expect(fire.material.defines?.USE_COLOR_RAMP).toBeUndefined()
+      expect(fire.material.uniforms.colorRamp.value).toBeNull()
+    })
+
+    it('disposes the baked texture but not a caller-owned one', () => {
+      const fire = new Fire({ fireTex: mockTexture, colorRamp: stops })
+      const baked = fire.material.uniforms.colorRamp.value as Texture
+      const bakedDispose = vi.spyOn(baked, 'dispose')
+
+      const gradient = new Texture()
+      const gradientDispose = vi.spyOn(gradient, 'dispose')
+      fire.colorRamp = gradient
+      expect(bakedDispose).toHaveBeenCalled()
+
+      fire.dispose()
+      expect(gradientDispose).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('blackbody mode', () => {
+    it('is off by default with an 1800 K – 4000 K range', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+
+      expect(fire.blackbody).toBe(false)
+      expect(fire.material.defines?.USE_BLACKBODY).toBeUndefined()
+      expect(fire.minTemperature).toBe(1800)
+      expect(fire.maxTemperature).toBe(4000)
+    })
+
+    it('enables the blackbody define and temperature uniforms', () => {
+      const fire = new Fire({
+        fireTex: mockTexture,
+        blackbody: true,
+        minTemperature: 1500,
+        maxTemperature: 6500,
+      })
+
+      expect(fire.material.defines?.USE_BLACKBODY).toBeDefined()
+      expect(fire.material.uniforms.minTemperature.value).toBe(1500)
+      expect(fire.material.uniforms.maxTemperature.value).toBe(6500)
+    })
+
+    it('toggles at runtime and keeps the other defines', () => {
+      const fire = new Fire({ fireTex: mockTexture, iterations: 12 })
+      const version = fire.material.version
+
+      fire.blackbody = true
+      expect(fire.material.defines?.USE_BLACKBODY).toBeDefined()
+      expect(fire.material.defines?.ITERATIONS).toBe('12')
+      expect(fire.material.version).toBeGreaterThan(version)
+
+      fire.blackbody = false
+      expect(fire.material.defines?.USE_BLACKBODY).toBeUndefined()
+    })
+
+    it('sets temperatures without recompiling', () => {
+      const fire = new Fire({ fireTex: mockTexture, blackbody: true })
+      const version = fire.material.version
+
+      fire.minTemperature = 2000
+      fire.maxTemperature = 9000
+
+      expect(fire.material.uniforms.minTemperature.value).toBe(2000)
+      expect(fire.material.uniforms.maxTemperature.value).toBe(9000)
+      expect(fire.material.version).toBe(version)
+    })
+  })
+
+  describe('depth-aware mode', () => {
+    const renderer = (target: { width: number; height: number } | null = null) =>
+      ({
+        getRenderTarget: () => target,
+        getDrawingBufferSize: (size: Vector2) => size.set(800, 600),
+      }) as unknown as WebGLRenderer
+
+    it('is disabled by default', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+
+      expect(fire.material.defines?.USE_DEPTH_TEXTURE).toBeUndefined()
+      expect(fire.material.uniforms.depthTex.value).toBeNull()
+    })
+
+    it('enables the depth define and binds the texture when one is given', () => {
+      const depthTexture = new DepthTexture(800, 600)
+      const fire = new Fire({ fireTex: mockTexture, depthTexture, depthSoftness: 0.25 })
+
+      expect(fire.material.defines?.USE_DEPTH_TEXTURE).toBeDefined()
+      expect(fire.material.uniforms.depthTex.value).toBe(depthTexture)
+      expect(fire.depthSoftness).toBe(0.25)
+    })
+
+    it('gets and sets depthSoftness', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      fire.depthSoftness = 0.5
+      expect(fire.material.uniforms.depthSoftness.value).toBe(0.5)
+    })
+
+    it('captures camera planes and drawing buffer size before rendering', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      fire.onBeforeRender(renderer(), new Scene(), new PerspectiveCamera(50, 1, 0.5, 500))
+
+      expect(fire.material.uniforms.cameraNear.value).toBe(0.5)
+      expect(fire.material.uniforms.cameraFar.value).toBe(500)
+      expect(fire.material.uniforms.resolution.value.toArray()).toEqual([800, 600])
+    })
+
+    it('uses the active render target size and orthographic planes', () => {
+      const fire = new Fire({ fireTex: mockTexture })
+      const camera = new OrthographicCamera(-1, 1, 1, -1, 2, 20)
+      fire.onBeforeRender(renderer({ width: 400, height: 300 }), new Scene(), camera)
+
+      expect(fire.material.uniforms.cameraNear.value).toBe(2)
+      expect(fire.material.uniforms.cameraFar.value).toBe(20)
+      expect(fire.material.uniforms.resolution.value.toArray()).toEqual([400, 300])
+    })
+  })
+
+  describe('options', () => {
+    it('applies the given options and leaves the rest', () => {
+      const fire = new Fire({ fireTex: mockTexture, magnitude: 2, seed: 3 })
+      fire.applyOptions({ gain: 0.8, wind: [0.4, 0, 0], iterations: 12, magnitude: undefined })
+
+      expect(fire.gain).toBe(0.8)
+      expect(fire.wind.toArray()).toEqual([0.4, 0, 0])
+      expect(fire.iterations).toBe(12)
+      expect(fire.material.defines.ITERATIONS).toBe('12')
+      expect(fire.magnitude).toBe(2)
+      expect(fire.seed).toBe(3)
+    })
+
+    it('gives back options another fire takes up', () => {
+      const fire = new Fire({
+        fireTex: mockTexture,
+        color: 0xff4400,
+        noiseScale: [2, 3, 2, 0.5],
+        flameDirection: [0, 1, 0],
+        blackbody: true,
+        densityCutoff: 1.2,
+        timeOffset: 4,
+        seed: 5,
+      })
+      const options = fire.getOptions()
+      const copy = new Fire({ fireTex: mockTexture, ...options })
+
+      expect(copy.getOptions()).toEqual(options)
+      expect(copy.material.defines).toEqual(fire.material.defines)
+      expect(options.color).not.toBe(fire.fireColor)
+      fire.noiseScale.x = 9
+      expect(options.noiseScale).toEqual([2, 3, 2, 0.5])
+    })
+  })
+
   describe('shader uniforms', () => {
     it('initializes all required uniforms', () => {
       const fire = new Fire({ fireTex: mockTexture })
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { Group, Texture, Vector3 } from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import { FireLight } from '../src/FireLight'
+import { backends } from './backends'
+
+describe('FireLight', () => {
+  const texture = new Texture()
+
+  it('parents itself to the fire it is given', () => {
+    const fire = new Fire({ fireTex: texture })
+    const light = new FireLight(fire, { intensity: 3, distance: 8, decay: 1 })
+
+    expect(light.parent).toBe(fire)
+    expect(light.baseIntensity).toBe(3)
+    expect(light.distance).toBe(8)
+    expect(light.decay).toBe(1)
+  })
+
+  it('follows its parent fire when created without one', () => {
+    const fire = new Fire({ fireTex: texture, seed: 1 })
+    const light = new FireLight()
+    fire.add(light)
+    fire.update(2)
+
+    light.update()
+    expect(light.intensity).toBeLessThan(1)
+  })
+
+  it('does nothing without a fire', () => {
+    const light = new FireLight()
+    new Group().add(light)
+    light.update()
+    expect(light.intensity).toBe(1)
+  })
+
+  it.each(backends)('flickers in step with the %s turbulence', (_, create) => {
+    const fire = create({ fireTex: texture, seed: 4.2 })
+    const light = new FireLight(fire, { intensity: 2, flicker: 1 })
+    const twin = new FireLight(create({ fireTex: texture, seed: 4.2 }), {
+      intensity: 2,
+      flicker: 1,
+    })
+
+    const intensities = [0.5, 1.0, 1.5, 2.0].map((time) => {
+      fire.update(time)
+      twin.fire?.update(time)
+      light.update()
+      twin.update()
+      expect(twin.intensity).toBe(light.intensity)
+      return light.intensity
+    })
+
+    for (const intensity of intensities) {
+      expect(intensity).toBeGreaterThan(0)
+      expect(intensity).toBeLessThanOrEqual(2)
+    }
+    expect(new Set(intensities).size).toBeGreaterThan(1)
+  })
+
+  it('dims further with a larger magnitude', () => {
+    const calm = new Fire({ fireTex: texture, seed: 3, magnitude: 0.5 })
+    const wild = new Fire({ fireTex: texture, seed: 3, magnitude: 3 })
+    const calmLight = new FireLight(calm)
+    const wildLight = new FireLight(wild)
+    calm.update(1)
+    wild.update(1)
+
+    calmLight.update()
+    wildLight.update()
+    expect(wildLight.intensity).toBeLessThan(calmLight.intensity)
+  })
+
+  it('stays steady with flicker 0 and takes the fire color', () => {
+    const fire = new Fire({ fireTex: texture, color: 0xff8800 })
+    const light = new FireLight(fire, { intensity: 2, flicker: 0 })
+    fire.update(1)
+
+    light.update()
+    expect(light.intensity).toBe(2)
+    expect(light.color.getHex()).toBe(0xff8800)
+  })
+
+  it('reddens as it dims', () => {
+    const fire = new Fire({ fireTex: texture, color: 0xffffff, magnitude: 3 })
+    const light = new FireLight(fire, { flicker: 1 })
+    fire.update(1)
+
+    light.update()
+    expect(light.color.r).toBe(1)
+    expect(light.color.g).toBeLessThan(1)
+    expect(light.color.b).toBeLessThan(light.color.g)
+  })
+})
+
+describe('sampleTurbulence', () => {
+  const texture = new Texture()
+  const point = new Vector3(0.1, -0.2, 0.05)
+
+  it('is reproducible for the same seed and time', () => {
+    const a = new Fire({ fireTex: texture, seed: 2 })
+    const b = new Fire({ fireTex: texture, seed: 2 })
+    a.update(3)
+    b.update(3)
+
+    expect(a.sampleTurbulence(point)).toBe(b.sampleTurbulence(point))
+  })
+
+  it('animates with time and honors the time offset', () => {
+    const fire = new FireTSL({ fireTex: texture, seed: 2 })
+    fire.update(3)
+    const before = fire.sampleTurbulence(point)
+
+    fire.timeOffset = 0.5
+    expect(fire.sampleTurbulence(point)).not.toBe(before)
+  })
+})
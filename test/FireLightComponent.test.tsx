@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render } from '@testing-library/react'
+// @ts-expect-error test-only export of the R3F mock in test/setup.ts
+import { __registered, useFrame } from '@react-three/fiber'
+import { Texture } from 'three'
+import { FireLightComponent } from '../src/FireLightComponent'
+import { FireLight } from '../src/FireLight'
+import { FireComponent } from '../src/FireComponent'
+import { FIRE_UPDATE_PRIORITY } from '../src/internal/useFireBindings'
+
+describe('FireLightComponent', () => {
+  it('renders and registers the FireLight element', () => {
+    const { container } = render(<FireLightComponent intensity={4} flicker={0.3} />)
+
+    expect(container).toBeTruthy()
+    expect(__registered.FireLight).toBe(FireLight)
+  })
+
+  it('follows its fire after the fire has updated', () => {
+    vi.mocked(useFrame).mockClear()
+    render(
+      <FireComponent texture={new Texture()}>
+        <FireLightComponent />
+      </FireComponent>,
+    )
+
+    // R3F runs lower priorities first, and would otherwise run the child light's
+    // callback first: it subscribes in an effect, before its parent fire's
+    const [fire, light] = vi.mocked(useFrame).mock.calls.map(([, priority]) => priority ?? 0)
+    expect(fire).toBe(FIRE_UPDATE_PRIORITY)
+    expect(light).toBeGreaterThan(fire)
+    expect(light).toBeLessThanOrEqual(0)
+  })
+
+  it('is exported from both React entry points', async () => {
+    const glsl = await import('../src/react')
+    const tsl = await import('../src/tsl/react')
+
+    expect(glsl.FireLight).toBe(FireLightComponent)
+    expect(tsl.FireLight).toBe(FireLightComponent)
+  })
+})
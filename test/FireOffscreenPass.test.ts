@@ -0,0 +1,256 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  Color,
+  DepthTexture,
+  Mesh,
+  MeshBasicMaterial,
+  PerspectiveCamera,
+  RenderTarget,
+  Scene,
+  Texture,
+  type Camera,
+  type Object3D,
+  type Vector2,
+} from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import { FireOffscreenPass } from '../src/FireOffscreenPass'
+import { FireOffscreenPassTSL } from '../src/tsl/FireOffscreenPassTSL'
+
+interface RenderCall {
+  scene: Object3D
+  target: RenderTarget | null
+  cameraLayers: number
+  background: unknown
+  autoClear: boolean
+  /** Fires of the scene whose material was visible */
+  visibleFires: Object3D[]
+}
+
+/** Renderer recording the state of every draw instead of drawing. */
+class StubRenderer {
+  autoClear = true
+  renders: RenderCall[] = []
+  clears: (RenderTarget | null)[] = []
+  private target: RenderTarget | null = null
+  private readonly clearColor = new Color(0x336699)
+  private clearAlpha = 1
+
+  getRenderTarget() {
+    return this.target
+  }
+  setRenderTarget(target: RenderTarget | null) {
+    this.target = target
+  }
+  getDrawingBufferSize(size: Vector2) {
+    return size.set(800, 600)
+  }
+  getClearColor(color: Color) {
+    return color.copy(this.clearColor)
+  }
+  getClearAlpha() {
+    return this.clearAlpha
+  }
+  setClearColor(color: Color, alpha = 1) {
+    this.clearColor.copy(color)
+    this.clearAlpha = alpha
+  }
+  clear() {
+    this.clears.push(this.target)
+  }
+  render(scene: Object3D, camera: Camera) {
+    const visibleFires: Object3D[] = []
+    scene.traverse((object) => {
+      if ((object instanceof Fire || object instanceof FireTSL) && object.material.visible) {
+        visibleFires.push(object)
+      }
+    })
+    this.renders.push({
+      scene,
+      target: this.target,
+      cameraLayers: camera.layers.mask,
+      background: (scene as Scene).background,
+      autoClear: this.autoClear,
+      visibleFires,
+    })
+  }
+}
+
+describe.each([
+  [
+    'FireOffscreenPass',
+    (options = {}) => new FireOffscreenPass(options),
+    () => new Fire({ fireTex: new Texture() }),
+  ],
+  [
+    'FireOffscreenPassTSL',
+    (options = {}) => new FireOffscreenPassTSL(options),
+    () => new FireTSL({ fireTex: new Texture() }),
+  ],
+])('%s', (_, createPass, createFire) => {
+  const setup = () => {
+    const scene = new Scene()
+    scene.background = new Color(0x202020)
+    const box = new Mesh(undefined, new MeshBasicMaterial())
+    const fires = [createFire(), createFire()]
+    scene.add(box, ...fires)
+    const camera = new PerspectiveCamera()
+    return { scene, box, fires, camera, renderer: new StubRenderer() }
+  }
+
+  it('has sensible defaults', () => {
+    const pass = createPass()
+
+    expect(pass.resolutionScale).toBe(0.5)
+    expect(pass.depthTexture).toBeNull()
+    expect(pass.depthThreshold).toBe(0.1)
+    pass.dispose()
+  })
+
+  it('draws the scene without its fires, then the fires alone offscreen', () => {
+    const { scene, fires, camera, renderer } = setup()
+    const pass = createPass()
+    pass.render(renderer as never, scene, camera)
+
+    const [main, offscreen, composite] = renderer.renders
+    expect(renderer.renders).toHaveLength(3)
+
+    expect(main.scene).toBe(scene)
+    expect(main.target).toBeNull()
+    expect(main.visibleFires).toEqual([])
+
+    expect(offscreen.scene).toBe(scene)
+    expect(offscreen.target).toBe(pass.target)
+    expect(offscreen.cameraLayers).toBe(2 ** 31)
+    expect(offscreen.background).toBeNull()
+    expect(offscreen.autoClear).toBe(false)
+    expect(offscreen.visibleFires).toEqual(fires)
+    expect(renderer.clears).toEqual([pass.target])
+
+    expect(composite.scene).not.toBe(scene)
+    expect(composite.target).toBeNull()
+    pass.dispose()
+  })
+
+  it('restores the renderer, scene, camera and fires', () => {
+    const { scene, box, fires, camera, renderer } = setup()
+    const background = scene.background
+    fires[1].layers.enable(2)
+    const pass = createPass()
+    pass.render(renderer as never, scene, camera)
+
+    expect(renderer.autoClear).toBe(true)
+    expect(renderer.getClearColor(new Color()).getHex()).toBe(0x336699)
+    expect(renderer.getClearAlpha()).toBe(1)
+    expect(renderer.getRenderTarget()).toBeNull()
+    expect(scene.background).toBe(background)
+    expect(camera.layers.mask).toBe(1)
+    expect(box.layers.mask).toBe(1)
+    expect(fires[0].layers.mask).toBe(1)
+    expect(fires[1].layers.mask).toBe(0b101)
+    for (const fire of fires) expect(fire.material.visible).toBe(true)
+    pass.dispose()
+  })
+
+  it('restores the renderer when drawing the fires throws', () => {
+    const { scene, fires, camera, renderer } = setup()
+    const background = scene.background
+    const output = new RenderTarget(256, 128)
+    renderer.setRenderTarget(output)
+    const pass = createPass()
+    const render = renderer.render.bind(renderer)
+    renderer.render = (object, view) => {
+      if (renderer.getRenderTarget() === pass.target) throw new Error('lost context')
+      render(object, view)
+    }
+
+    expect(() => pass.render(renderer as never, scene, camera)).toThrow('lost context')
+    expect(renderer.autoClear).toBe(true)
+    expect(renderer.getClearColor(new Color()).getHex()).toBe(0x336699)
+    expect(renderer.getClearAlpha()).toBe(1)
+    expect(renderer.getRenderTarget()).toBe(output)
+    expect(scene.background).toBe(background)
+    expect(camera.layers.mask).toBe(1)
+    for (const fire of fires) expect(fire.layers.mask).toBe(1)
+    pass.dispose()
+  })
+
+  it('draws offscreen at a fraction of the output size', () => {
+    const { scene, camera, renderer } = setup()
+    const pass = createPass()
+    pass.render(renderer as never, scene, camera)
+    expect([pass.target.width, pass.target.height]).toEqual([400, 300])
+
+    pass.resolutionScale = 0.25
+    const output = new RenderTarget(256, 128)
+    renderer.setRenderTarget(output)
+    pass.render(renderer as never, scene, camera)
+    expect([pass.target.width, pass.target.height]).toEqual([64, 32])
+    expect(renderer.getRenderTarget()).toBe(output)
+    pass.dispose()
+  })
+
+  it('leaves out fires the camera would not draw', () => {
+    const { scene, fires, camera, renderer } = setup()
+    fires[0].material.visible = false
+    fires[1].layers.set(3)
+    const pass = createPass()
+    pass.render(renderer as never, scene, camera)
+
+    // Nothing left to draw offscreen
+    expect(renderer.renders).toHaveLength(1)
+    expect(fires[0].material.visible).toBe(false)
+    pass.dispose()
+  })
+
+  it('draws only the fires with renderFires', () => {
+    const { scene, fires, camera, renderer } = setup()
+    const pass = createPass()
+    pass.renderFires(renderer as never, scene, camera)
+
+    expect(renderer.renders).toHaveLength(2)
+    expect(renderer.renders[0].target).toBe(pass.target)
+    expect(renderer.renders[0].visibleFires).toEqual(fires)
+    pass.dispose()
+  })
+
+  it('releases its target', () => {
+    const pass = createPass()
+    const dispose = vi.spyOn(pass.target, 'dispose')
+    pass.dispose()
+
+    expect(dispose).toHaveBeenCalled()
+  })
+})
+
+describe('FireOffscreenPass depth texture', () => {
+  it('defines USE_DEPTH_TEXTURE while set', () => {
+    const depthTexture = new DepthTexture(1, 1)
+    const pass = new FireOffscreenPass({ depthTexture })
+    const material = (pass as unknown as { material: { defines: object; version: number } })
+      .material
+    expect(material.defines).toHaveProperty('USE_DEPTH_TEXTURE')
+
+    const version = material.version
+    pass.depthTexture = new DepthTexture(1, 1)
+    expect(material.version).toBe(version)
+
+    pass.depthTexture = null
+    expect(material.defines).not.toHaveProperty('USE_DEPTH_TEXTURE')
+    expect(material.version).toBeGreaterThan(version)
+    pass.dispose()
+  })
+})
+
+describe('FireOffscreenPassTSL depth texture', () => {
+  it('rebuilds the compositing graph when set', () => {
+    const pass = new FireOffscreenPassTSL()
+    const material = (pass as unknown as { material: { fragmentNode: unknown } }).material
+    const bilinear = material.fragmentNode
+    expect(bilinear).toBeTruthy()
+
+    pass.depthTexture = new DepthTexture(1, 1)
+    expect(material.fragmentNode).not.toBe(bilinear)
+    pass.dispose()
+  })
+})
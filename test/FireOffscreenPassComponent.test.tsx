@@ -0,0 +1,64 @@
+import { StrictMode } from 'react'
+import { describe, it, expect, vi } from 'vitest'
+import { render } from '@testing-library/react'
+// @ts-expect-error test-only export of the R3F mock in test/setup.ts
+import { __advanceFrame, useFrame } from '@react-three/fiber'
+import { DepthTexture } from 'three'
+import { FireOffscreenPassComponent } from '../src/FireOffscreenPassComponent'
+import { FireOffscreenPassComponent as FireOffscreenPassComponentTSL } from '../src/tsl/FireOffscreenPassComponentTSL'
+import { FireOffscreenPass } from '../src/FireOffscreenPass'
+import { FireOffscreenPassTSL } from '../src/tsl/FireOffscreenPassTSL'
+
+describe.each([
+  ['FireOffscreenPass', FireOffscreenPassComponent, FireOffscreenPass],
+  ['FireOffscreenPassTSL', FireOffscreenPassComponentTSL, FireOffscreenPassTSL],
+])('%s component', (_, Component, Pass) => {
+  it('takes over rendering at priority 1', () => {
+    vi.mocked(useFrame).mockClear()
+    const { container } = render(<Component />)
+
+    expect(container.firstChild).toBeNull()
+    expect(useFrame).toHaveBeenCalledWith(expect.any(Function), 1)
+  })
+
+  it('configures its pass from the props', () => {
+    const setDepth = vi.spyOn(Pass.prototype, 'depthTexture', 'set')
+    const depthTexture = new DepthTexture(1, 1)
+    render(<Component resolutionScale={0.25} depthTexture={depthTexture} priority={2} />)
+
+    expect(setDepth).toHaveBeenLastCalledWith(depthTexture)
+    expect(useFrame).toHaveBeenLastCalledWith(expect.any(Function), 2)
+    setDepth.mockRestore()
+  })
+
+  it('disposes its pass on unmount', () => {
+    const dispose = vi.spyOn(Pass.prototype, 'dispose')
+    const { unmount } = render(<Component />)
+    unmount()
+
+    expect(dispose).toHaveBeenCalled()
+    dispose.mockRestore()
+  })
+
+  it('draws through a live pass under StrictMode', () => {
+    const dispose = vi.spyOn(Pass.prototype, 'dispose')
+    const draw = vi.spyOn(Pass.prototype, 'render').mockImplementation(() => {})
+    const setDepth = vi.spyOn(Pass.prototype, 'depthTexture', 'set')
+    const depthTexture = new DepthTexture(1, 1)
+    render(
+      <StrictMode>
+        <Component depthTexture={depthTexture} />
+      </StrictMode>,
+    )
+    __advanceFrame({ gl: {}, scene: {}, camera: {} })
+
+    expect(draw).toHaveBeenCalledTimes(1)
+    const pass = draw.mock.contexts[0]
+    expect(dispose.mock.contexts).not.toContain(pass)
+    expect(setDepth.mock.contexts.at(-1)).toBe(pass)
+    expect(setDepth).toHaveBeenLastCalledWith(depthTexture)
+    dispose.mockRestore()
+    draw.mockRestore()
+    setDepth.mockRestore()
+  })
+})
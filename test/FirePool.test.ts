@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BackSide, Color, FrontSide, PerspectiveCamera, Texture, Vector3 } from 'three'
+import { Fire } from '../src/Fire'
+import { FirePool, type FireCompiler } from '../src/FirePool'
+import type { FireUniformBag } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+// White-box access to a fire's uniforms
+const uniformsOf = (fire: unknown) => (fire as { getUniforms(): FireUniformBag }).getUniforms()
+
+describe.each(backends)('FirePool of %s', (_, createFire) => {
+  const create = () => createFire({ magnitude: 1.5, color: 'orange' })
+
+  it('creates its fires up front, hidden', () => {
+    const factory = vi.fn(create)
+    const pool = new FirePool(factory, { size: 4 })
+
+    expect(factory).toHaveBeenCalledTimes(4)
+    expect(pool.fires).toHaveLength(4)
+    expect(pool.children).toEqual(pool.fires)
+    expect(pool.fires.every((fire) => !fire.visible)).toBe(true)
+    expect(pool.activeCount).toBe(0)
+  })
+
+  it('spawns a fire with the given transform and parameters', () => {
+    const pool = new FirePool(create, { size: 2 })
+
+    const fire = pool.spawn({
+      position: [1, 2, 3],
+      scale: 0.5,
+      seed: 4,
+      magnitude: 2,
+      color: 'red',
+      wind: [0.5, 0, 0],
+    })
+
+    expect(fire?.visible).toBe(true)
+    expect(fire?.position.toArray()).toEqual([1, 2, 3])
+    expect(fire?.scale.toArray()).toEqual([0.5, 0.5, 0.5])
+    expect(fire?.seed).toBe(4)
+    expect(fire?.magnitude).toBe(2)
+    expect(fire?.fireColor.getHex()).toBe(0xff0000)
+    expect(fire?.wind.x).toBe(0.5)
+    expect(pool.activeCount).toBe(1)
+    expect(fire && pool.isActive(fire)).toBe(true)
+  })
+
+  it('resets what a spawn leaves out to the initial values', () => {
+    const pool = new FirePool(create, { size: 1 })
+    const first = pool.spawn({ position: [5, 0, 0], magnitude: 3, color: 'blue', timeScale: 2 })
+    const seed = first?.seed
+    if (first) pool.release(first)
+
+    const fire = pool.spawn()
+
+    expect(fire).toBe(first)
+    expect(fire?.position.toArray()).toEqual([0, 0, 0])
+    expect(fire?.magnitude).toBe(1.5)
+    expect(fire?.fireColor.equals(new Color('orange'))).toBe(true)
+    expect(fire?.timeScale).toBe(1)
+    expect(fire?.seed).not.toBe(seed)
+  })
+
+  it('colors only the spawned fire when the factory shares one Color', () => {
+    const color = new Color('orange')
+    const pool = new FirePool(
+      () => {
+        const fire = create()
+        fire.fireColor = color
+        return fire
+      },
+      { size: 2 },
+    )
+
+    const red = pool.spawn({ color: 'red' })
+    const other = pool.spawn()
+
+    expect(red?.fireColor.getHex()).toBe(0xff0000)
+    expect(other?.fireColor.equals(new Color('orange'))).toBe(true)
+    expect(color.equals(new Color('orange'))).toBe(true)
+  })
+
+  it('restarts the animation on every spawn', () => {
+    const pool = new FirePool(create, { size: 1 })
+    const fire = pool.spawn()
+    pool.update(0)
+    pool.update(5)
+    expect(fire?.time).toBe(5)
+    if (fire) pool.release(fire)
+
+    pool.spawn({ position: [100, 0, 0], inertia: 0.2, wind: [2, 0, 0] })
+    expect(fire?.time).toBe(0)
+
+    // The next update takes up the clock where it stands, without a jump
+    pool.update(100)
+    pool.update(100.5)
+    expect(fire?.time).toBe(0.5)
+    expect(uniformsOf(fire).windDrift.value.x).toBeCloseTo(1)
+  })
+
+  it('takes fires back after their lifetime', () => {
+    const pool = new FirePool(create, { size: 2 })
+    pool.update(10)
+    const short = pool.spawn({ lifetime: 0.5 })
+    const long = pool.spawn({ lifetime: 2 })
+
+    pool.update(10.6)
+
+    expect(short?.visible).toBe(false)
+    expect(short && pool.isActive(short)).toBe(false)
+    expect(long?.visible).toBe(true)
+    expect(pool.activeCount).toBe(1)
+
+    pool.update(12.1)
+    expect(pool.activeCount).toBe(0)
+  })
+
+  it('updates only the spawned fires', () => {
+    const pool = new FirePool(create, { size: 2 })
+    const fire = pool.spawn()
+    const idle = pool.fires.find((candidate) => candidate !== fire)
+
+    pool.update(0)
+    pool.update(1)
+
+    expect(fire?.time).toBe(1)
+    expect(idle?.time).toBe(0)
+  })
+
+  it('recycles the oldest fire once all are in use', () => {
+    const pool = new FirePool(create, { size: 2 })
+    const oldest = pool.spawn()
+    const newer = pool.spawn()
+
+    expect(pool.spawn({ position: [0, 1, 0] })).toBe(oldest)
+    expect(oldest?.position.y).toBe(1)
+    expect(newer && pool.isActive(newer)).toBe(true)
+    expect(pool.activeCount).toBe(2)
+  })
+
+  it('spawns nothing once all are in use with overflow skip', () => {
+    const pool = new FirePool(create, { size: 1, overflow: 'skip' })
+    pool.spawn()
+
+    expect(pool.spawn()).toBeNull()
+    expect(pool.activeCount).toBe(1)
+  })
+
+  it('never rebuilds a shader while spawning', () => {
+    const pool = new FirePool(create, { size: 2 })
+    const shaders = pool.fires.map((fire) => [fire.material.version, fire.material.fragmentNode])
+
+    for (let i = 0; i < 6; i++) pool.spawn({ magnitude: i, color: i, noiseScale: [1, i, 1, 0.3] })
+
+    expect(pool.fires.map((fire) => [fire.material.version, fire.material.fragmentNode])).toEqual(
+      shaders,
+    )
+  })
+
+  it('compiles both faces of the first fire, then hides it again', async () => {
+    const pool = new FirePool(create, { size: 2 })
+    const [fire] = pool.fires
+    const compiled: [boolean, number][] = []
+    const renderer: FireCompiler = {
+      compileAsync: vi.fn(async () => {
+        compiled.push([fire.visible, fire.material.side])
+      }),
+    }
+
+    await pool.compile(renderer, new PerspectiveCamera())
+
+    expect(renderer.compileAsync).toHaveBeenCalledWith(fire, expect.anything(), null)
+    expect(compiled).toEqual([
+      [true, FrontSide],
+      [true, BackSide],
+    ])
+    expect(fire.visible).toBe(false)
+    expect(fire.material.side).toBe(FrontSide)
+  })
+
+  it('disposes every fire', () => {
+    const pool = new FirePool(create, { size: 3 })
+    const disposals = pool.fires.map((fire) => vi.spyOn(fire, 'dispose'))
+
+    pool.dispose()
+
+    expect(disposals.every((dispose) => dispose.mock.calls.length === 1)).toBe(true)
+    expect(pool.children).toEqual([])
+  })
+})
+
+describe('FirePool spawn transform', () => {
+  it('takes vectors and Euler rotations too', () => {
+    const pool = new FirePool(() => new Fire({ fireTex: new Texture() }), { size: 1 })
+    const fire = pool.spawn({
+      position: new Vector3(1, 0, 0),
+      scale: new Vector3(1, 2, 1),
+      rotation: [0, Math.PI, 0],
+    })
+
+    expect(fire?.position.x).toBe(1)
+    expect(fire?.scale.y).toBe(2)
+    expect(fire?.rotation.y).toBeCloseTo(Math.PI)
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest'
+import { PerspectiveCamera } from 'three'
+import type { Fire } from '../src/Fire'
+import type { FireTSL } from '../src/tsl/FireTSL'
+import { FireQualityManager } from '../src/FireQualityManager'
+import type { FireVariant } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+// White-box access to the variant the shader is built for
+const drawn = (fire: Fire | FireTSL) => (fire as unknown as { variant: FireVariant }).variant
+
+/** Feeds `seconds` of frames `frameTime` apart, starting at `start`; returns the end time. */
+const run = (quality: FireQualityManager, frameTime: number, seconds: number, start = 0) => {
+  let time = start
+  quality.update(time)
+  for (let elapsed = 0; elapsed < seconds - 1e-9; elapsed += frameTime) {
+    time += frameTime
+    quality.update(time)
+  }
+  return time
+}
+
+describe('FireQualityManager', () => {
+  it('starts at the best tier', () => {
+    const quality = new FireQualityManager()
+
+    expect(quality.tier).toBe(0)
+    expect(quality.tiers).toHaveLength(4)
+    expect(quality.currentTier).toEqual({ iterationScale: 1, maxOctaves: Number.POSITIVE_INFINITY })
+    expect(quality.frameTime).toBe(0)
+  })
+
+  it('keeps the tier within its tiers and reports changes', () => {
+    const quality = new FireQualityManager({ tier: 9 })
+    const change = vi.fn()
+    quality.addEventListener('change', change)
+
+    expect(quality.tier).toBe(3)
+    quality.tier = 1
+    quality.tier = 1
+    quality.tier = -2
+
+    expect(change).toHaveBeenCalledTimes(2)
+    expect(change.mock.calls[0][0]).toMatchObject({ type: 'change', tier: 1, previous: 3 })
+    expect(change.mock.calls[1][0]).toMatchObject({ tier: 0, previous: 1 })
+  })
+
+  it('drops a tier after a second of slow frames', () => {
+    const quality = new FireQualityManager({ targetFps: 60 })
+
+    let time = run(quality, 1 / 30, 0.9)
+    expect(quality.tier).toBe(0)
+    expect(quality.frameTime).toBeCloseTo(1 / 30)
+
+    time = run(quality, 1 / 30, 0.2, time)
+    expect(quality.tier).toBe(1)
+    run(quality, 1 / 30, 5, time)
+    expect(quality.tier).toBe(3)
+  })
+
+  it('climbs back after three seconds within budget', () => {
+    const quality = new FireQualityManager({ targetFps: 60, tier: 2 })
+
+    const time = run(quality, 1 / 60, 2.9)
+    expect(quality.tier).toBe(2)
+    run(quality, 1 / 60, 0.2, time)
+    expect(quality.tier).toBe(1)
+  })
+
+  it('tolerates frames slightly over budget', () => {
+    const quality = new FireQualityManager({ targetFps: 60, tolerance: 0.2 })
+    run(quality, 1 / 55, 5)
+    expect(quality.tier).toBe(0)
+  })
+
+  it('ignores repeated updates and pauses', () => {
+    const quality = new FireQualityManager({ targetFps: 60 })
+    quality.update(0)
+    quality.update(0)
+    quality.update(10)
+    quality.update(10 + 1 / 60)
+
+    expect(quality.frameTime).toBeCloseTo(1 / 60)
+  })
+
+  it('only measures without adaptive', () => {
+    const quality = new FireQualityManager({ adaptive: false })
+    run(quality, 1 / 20, 5)
+
+    expect(quality.tier).toBe(0)
+    expect(quality.frameTime).toBeCloseTo(1 / 20)
+  })
+})
+
+describe.each(backends)('%s quality manager', (_, create) => {
+  it('scales the iterations and caps the octaves of its fires', () => {
+    const quality = new FireQualityManager()
+    const fire = create({ iterations: 20, octaves: 3 })
+    const unregister = quality.register(fire)
+    expect(fire.qualityManager).toBe(quality)
+    expect(quality.fires.has(fire)).toBe(true)
+
+    quality.tier = 2
+    expect(drawn(fire)).toMatchObject({ iterations: 10, octaves: 2 })
+    expect(fire.iterations).toBe(20)
+
+    fire.iterations = 16
+    expect(drawn(fire).iterations).toBe(8)
+
+    unregister()
+    expect(fire.qualityManager).toBeNull()
+    expect(quality.fires.has(fire)).toBe(false)
+    expect(drawn(fire)).toMatchObject({ iterations: 16, octaves: 3 })
+    fire.dispose()
+  })
+
+  it('joins a manager passed at construction', () => {
+    const quality = new FireQualityManager({ tier: 3 })
+    const fire = create({ qualityManager: quality })
+
+    expect(quality.fires.has(fire)).toBe(true)
+    expect(drawn(fire)).toMatchObject({ iterations: 7, octaves: 1 })
+    fire.dispose()
+  })
+
+  it('applies the tier on top of the LOD level', () => {
+    const quality = new FireQualityManager({ tier: 1 })
+    const fire = create({
+      lod: [{ minScreenSize: 0, iterations: 12, octaves: 2 }],
+      qualityManager: quality,
+    })
+
+    fire.update(0, new PerspectiveCamera())
+
+    expect(fire.lodLevel).toBe(0)
+    expect(drawn(fire)).toMatchObject({ iterations: 9, octaves: 2 })
+    fire.dispose()
+  })
+
+  it('leaves the manager when disposed or moved to another', () => {
+    const first = new FireQualityManager()
+    const second = new FireQualityManager({ tier: 2 })
+    const moved = create()
+    const disposed = create()
+    first.register(moved)
+    first.register(disposed)
+
+    second.register(moved)
+    disposed.dispose()
+
+    expect([...first.fires]).toEqual([])
+    expect(second.fires.has(moved)).toBe(true)
+    first.tier = 3
+    expect(drawn(moved).iterations).toBe(10)
+    moved.dispose()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { act, render, renderHook } from '@testing-library/react'
+import {
+  FireQualityProvider,
+  useFireQuality,
+  useFireQualityManager,
+} from '../src/FireQualityProvider'
+import { FireQualityManager } from '../src/FireQualityManager'
+import { FireComponent } from '../src/FireComponent'
+import { Texture } from 'three'
+
+describe('FireQualityProvider', () => {
+  it('provides a manager configured from its props', () => {
+    const { result } = renderHook(() => useFireQualityManager(), {
+      wrapper: ({ children }) => (
+        <FireQualityProvider targetFps={30} tolerance={0.1} upgradeDelay={5} adaptive={false}>
+          {children}
+        </FireQualityProvider>
+      ),
+    })
+
+    expect(result.current).toBeInstanceOf(FireQualityManager)
+    expect(result.current?.targetFps).toBe(30)
+    expect(result.current?.tolerance).toBe(0.1)
+    expect(result.current?.upgradeDelay).toBe(5)
+    expect(result.current?.adaptive).toBe(false)
+  })
+
+  it('shares an existing manager', () => {
+    const manager = new FireQualityManager({ tier: 1 })
+    const { result } = renderHook(() => useFireQualityManager(), {
+      wrapper: ({ children }) => (
+        <FireQualityProvider manager={manager} targetFps={45}>
+          {children}
+        </FireQualityProvider>
+      ),
+    })
+
+    expect(result.current).toBe(manager)
+    expect(manager.targetFps).toBe(45)
+    expect(manager.tier).toBe(1)
+  })
+
+  it('keeps the settings of a shared manager the props leave out', () => {
+    const manager = new FireQualityManager({
+      tolerance: 0.5,
+      downgradeDelay: 2,
+      upgradeDelay: 8,
+      adaptive: false,
+    })
+    renderHook(() => useFireQualityManager(), {
+      wrapper: ({ children }) => (
+        <FireQualityProvider manager={manager} targetFps={30}>
+          {children}
+        </FireQualityProvider>
+      ),
+    })
+
+    expect(manager.targetFps).toBe(30)
+    expect(manager.tolerance).toBe(0.5)
+    expect(manager.downgradeDelay).toBe(2)
+    expect(manager.upgradeDelay).toBe(8)
+    expect(manager.adaptive).toBe(false)
+  })
+
+  it('is null outside a provider', () => {
+    const { result } = renderHook(() => useFireQualityManager())
+    expect(result.current).toBeNull()
+  })
+
+  it('renders fires inside it', () => {
+    const { container } = render(
+      <FireQualityProvider>
+        <FireComponent texture={new Texture()} />
+        <FireComponent texture={new Texture()} qualityManager={null} />
+      </FireQualityProvider>,
+    )
+
+    expect(container).toBeTruthy()
+  })
+})
+
+describe('useFireQuality', () => {
+  it('re-renders with the tier of the provider', () => {
+    const manager = new FireQualityManager()
+    const { result } = renderHook(() => useFireQuality(), {
+      wrapper: ({ children }) => (
+        <FireQualityProvider manager={manager}>{children}</FireQualityProvider>
+      ),
+    })
+    expect(result.current).toBe(0)
+
+    act(() => {
+      manager.tier = 2
+    })
+
+    expect(result.current).toBe(2)
+  })
+
+  it('reads a manager passed in', () => {
+    const manager = new FireQualityManager({ tier: 3 })
+    const { result } = renderHook(() => useFireQuality(manager))
+    expect(result.current).toBe(3)
+  })
+
+  it('is the best tier without a manager', () => {
+    const { result } = renderHook(() => useFireQuality())
+    expect(result.current).toBe(0)
+  })
+})
@@ -98,6 +98,37 @@ describe('FireShader', () => {
       expect(fs).toContain('OCTAVES')
     })
 
+    it('gates depth-aware soft intersection behind USE_DEPTH_TEXTURE', () => {
+      const fs = FireShader.fragmentShader
+
+      expect(fs).toContain('#ifdef USE_DEPTH_TEXTURE')
+      expect(fs).toContain('depthTex')
+      expect(fs).toContain('depthSoftness')
+    })
+
+    it('gates the color ramp and blackbody modes behind their defines', () => {
+      const fs = FireShader.fragmentShader
+
+      expect(fs).toContain('#ifdef USE_COLOR_RAMP')
+      expect(fs).toContain('#elif defined(USE_BLACKBODY)')
+      expect(fs).toContain('mix(minTemperature, maxTemperature')
+    })
+
+    it('clips the march to the volume instead of using a fixed step', () => {
+      const fs = FireShader.fragmentShader
+
+      expect(fs).toContain('intersectBox')
+      expect(fs).toContain('/ float(ITERATIONS)')
+      expect(fs).not.toContain('0.0288')
+    })
+
+    it('casts parallel rays along the view direction for orthographic cameras', () => {
+      const fs = FireShader.fragmentShader
+
+      expect(fs).toContain('isOrthographic')
+      expect(fs).toContain('viewMatrix[0][2], viewMatrix[1][2], viewMatrix[2][2]')
+    })
+
     it('contains noise and ray marching logic', () => {
       const fs = FireShader.fragmentShader
 
@@ -123,6 +154,8 @@ describe('FireShader', () => {
         'magnitude',
         'lacunarity',
         'gain',
+        'wind',
+        'windDrift',
       ]
 
       const actualUniforms = Object.keys(FireShader.uniforms)
@@ -1,6 +1,15 @@
 import { describe, it, expect } from 'vitest'
 import { createFireUniforms, createFireFragmentNode } from '../src/tsl/FireShaderTSL'
-import { Color, Texture, Matrix4, Vector3, Vector4, LinearFilter, ClampToEdgeWrapping } from 'three'
+import {
+  Color,
+  Texture,
+  DepthTexture,
+  Matrix4,
+  Vector3,
+  Vector4,
+  LinearFilter,
+  ClampToEdgeWrapping,
+} from 'three'
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -19,6 +28,8 @@ describe('FireShaderTSL', () => {
       expect(u.magnitude.value).toBe(1.3)
       expect(u.lacunarity.value).toBe(2.0)
       expect(u.gain.value).toBe(0.5)
+      expect(u.depthTexture).toBeNull()
+      expect(u.depthSoftness.value).toBe(0.1)
     })
 
     it('honors a custom config', () => {
@@ -29,11 +40,13 @@ describe('FireShaderTSL', () => {
         lacunarity: 3,
         gain: 0.7,
         noiseScale: [4, 5, 6, 7],
+        seed: 3.3,
       }) as any
       expect(u.magnitude.value).toBe(2)
       expect(u.lacunarity.value).toBe(3)
       expect(u.gain.value).toBe(0.7)
       expect(u.noiseScale.value).toMatchObject({ x: 4, y: 5, z: 6, w: 7 })
+      expect(u.seed.value).toBe(3.3)
     })
 
     it('defaults color to 0xeeeeee', () => {
@@ -64,5 +77,10 @@ describe('FireShaderTSL', () => {
       expect(() => createFireFragmentNode(u, 30, 5)).not.toThrow()
       expect(() => createFireFragmentNode(u, 10, 1)).not.toThrow()
     })
+
+    it('builds the depth-aware variant when a depth texture is supplied', () => {
+      const u = createFireUniforms({ fireTex: new Texture(), depthTexture: new DepthTexture(1, 1) })
+      expect(() => createFireFragmentNode(u)).not.toThrow()
+    })
   })
 })
@@ -3,11 +3,16 @@ import { FireTSL } from '../src/tsl/FireTSL'
 import {
   Color,
   Texture,
+  DataTexture,
+  DepthTexture,
   type Matrix4,
   type Vector3,
   type Vector4,
   LinearFilter,
   ClampToEdgeWrapping,
+  PerspectiveCamera,
+  BackSide,
+  FrontSide,
 } from 'three'
 
 // White-box access to the private uniform bag for deep assertions
@@ -22,6 +27,11 @@ type WithUniforms = {
     magnitude: { value: number }
     lacunarity: { value: number }
     gain: { value: number }
+    depthTexture: DepthTexture | null
+    depthSoftness: { value: number }
+    colorRamp: Texture | null
+    minTemperature: { value: number }
+    maxTemperature: { value: number }
   }
 }
 const peek = (fire: FireTSL) => fire as unknown as WithUniforms
@@ -88,6 +98,14 @@ describe('FireTSL class', () => {
       expect(b).toBeTypeOf('number')
       expect(a).not.toBe(b)
     })
+
+    it('uses an explicit seed', () => {
+      const fire = new FireTSL({ fireTex: texture, seed: 4.2 })
+      expect(peek(fire).uniforms.seed.value).toBe(4.2)
+      fire.seed = 7.5
+      expect(fire.seed).toBe(7.5)
+      expect(peek(fire).uniforms.seed.value).toBe(7.5)
+    })
   })
 
   describe('update', () => {
@@ -105,6 +123,40 @@ describe('FireTSL class', () => {
       expect(fire.time).toBe(2.0)
     })
 
+    it('honors pause, timeScale and timeOffset', () => {
+      const fire = new FireTSL({ fireTex: texture, timeOffset: 10 })
+      fire.update(1.0)
+      fire.paused = true
+      fire.update(2.0)
+      fire.paused = false
+      fire.timeScale = 2
+      fire.update(3.0)
+
+      expect(fire.time).toBe(3.0)
+      expect(peek(fire).uniforms.time.value).toBe(13.0)
+    })
+
+    it('carries the noise along with the wind', () => {
+      const fire = new FireTSL({ fireTex: texture, wind: [0.5, 0, 0] })
+      fire.update(0)
+      fire.update(2.0)
+
+      expect(peek(fire).uniforms.windDrift.value.toArray()).toEqual([1, 0, 0])
+    })
+
+    it('switches to back faces while the camera is inside the volume', () => {
+      const fire = new FireTSL({ fireTex: texture })
+      const camera = new PerspectiveCamera(50, 1, 0.1, 100)
+      camera.updateMatrixWorld()
+      fire.update(1.0, camera)
+      expect(fire.material.side).toBe(BackSide)
+
+      camera.position.set(0, 0, 5)
+      camera.updateMatrixWorld()
+      fire.update(1.0, camera)
+      expect(fire.material.side).toBe(FrontSide)
+    })
+
     it('writes the inverse world matrix into the uniform', () => {
       const fire = new FireTSL({ fireTex: texture })
       fire.position.set(5, 0, 0)
@@ -144,9 +196,100 @@ describe('FireTSL class', () => {
     })
   })
 
+  describe('iterations and octaves', () => {
+    it('regenerates the fragment node while keeping uniform state', () => {
+      const fire = new FireTSL({ fireTex: texture, iterations: 20, octaves: 3 })
+      const node = fire.material.fragmentNode
+      const seed = peek(fire).uniforms.seed.value
+      fire.update(3.0)
+      fire.gain = 0.7
+
+      fire.iterations = 10
+      expect(fire.iterations).toBe(10)
+      expect(fire.material.fragmentNode).not.toBe(node)
+
+      const rebuilt = fire.material.fragmentNode
+      fire.octaves = 1
+      expect(fire.octaves).toBe(1)
+      expect(fire.material.fragmentNode).not.toBe(rebuilt)
+
+      expect(peek(fire).uniforms.seed.value).toBe(seed)
+      expect(fire.time).toBe(3.0)
+      expect(fire.gain).toBe(0.7)
+    })
+
+    it('keeps the node when the value is unchanged', () => {
+      const fire = new FireTSL({ fireTex: texture })
+      const node = fire.material.fragmentNode
+      fire.iterations = 20
+      fire.octaves = 3
+      expect(fire.material.fragmentNode).toBe(node)
+    })
+  })
+
+  describe('colorRamp', () => {
+    it('keeps the single tint by default', () => {
+      const fire = new FireTSL({ fireTex: texture })
+      expect(fire.colorRamp).toBeNull()
+      expect(peek(fire).uniforms.colorRamp).toBeNull()
+    })
+
+    it('rebuilds the node only when the ramp texture changes', () => {
+      const fire = new FireTSL({ fireTex: texture, colorRamp: [[0, 'red']] })
+      const baked = peek(fire).uniforms.colorRamp
+      const node = fire.material.fragmentNode
+      expect(baked).toBeInstanceOf(DataTexture)
+
+      fire.colorRamp = [
+        [0, 'red'],
+        [1, 'yellow'],
+      ]
+      expect(peek(fire).uniforms.colorRamp).toBe(baked)
+      expect(fire.material.fragmentNode).toBe(node)
+
+      fire.colorRamp = null
+      expect(peek(fire).uniforms.colorRamp).toBeNull()
+      expect(fire.material.fragmentNode).not.toBe(node)
+    })
+  })
+
+  describe('blackbody mode', () => {
+    it('rebuilds the node when toggled and keeps temperatures live', () => {
+      const fire = new FireTSL({ fireTex: texture, minTemperature: 1500 })
+      const node = fire.material.fragmentNode
+      expect(fire.blackbody).toBe(false)
+
+      fire.blackbody = true
+      expect(fire.material.fragmentNode).not.toBe(node)
+
+      const rebuilt = fire.material.fragmentNode
+      fire.maxTemperature = 6500
+      expect(fire.material.fragmentNode).toBe(rebuilt)
+      expect(peek(fire).uniforms.minTemperature.value).toBe(1500)
+      expect(peek(fire).uniforms.maxTemperature.value).toBe(6500)
+    })
+  })
+
+  describe('depth-aware mode', () => {
+    it('is disabled by default', () => {
+      const fire = new FireTSL({ fireTex: texture })
+      expect(peek(fire).uniforms.depthTexture).toBeNull()
+    })
+
+    it('keeps the depth texture and softness when enabled', () => {
+      const depthTexture = new DepthTexture(800, 600)
+      const fire = new FireTSL({ fireTex: texture, depthTexture, depthSoftness: 0.25 })
+      expect(peek(fire).uniforms.depthTexture).toBe(depthTexture)
+      expect(fire.depthSoftness).toBe(0.25)
+      fire.depthSoftness = 0.5
+      expect(peek(fire).uniforms.depthSoftness.value).toBe(0.5)
+    })
+  })
+
   describe('dispose', () => {
-    it('disposes geometry and material', () => {
+    it('disposes the material and keeps the geometry other fires share', () => {
       const fire = new FireTSL({ fireTex: texture })
+      const other = new FireTSL({ fireTex: texture })
       const geom = fire.geometry
       const mat = fire.material
       let geomDisposed = false
@@ -158,7 +301,8 @@ describe('FireTSL class', () => {
         matDisposed = true
       })
       fire.dispose()
-      expect(geomDisposed).toBe(true)
+      expect(other.geometry).toBe(geom)
+      expect(geomDisposed).toBe(false)
       expect(matDisposed).toBe(true)
     })
   })
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { Texture, Vector3 } from 'three'
+import { FireWind } from '../src/FireWind'
+import { Fire } from '../src/Fire'
+import { backends } from './backends'
+
+const origin = new Vector3()
+
+describe('FireWind', () => {
+  it('blows steadily along its direction without gusts or turbulence', () => {
+    const wind = new FireWind({ direction: [0, 0, 2], speed: 0.5, gustAmplitude: 0, turbulence: 0 })
+
+    expect(wind.sample(3.7, new Vector3(5, 1, -2)).toArray()).toEqual([0, 0, 0.5])
+  })
+
+  it('is a pure function of time, position and parameters', () => {
+    const a = new FireWind({ seed: 4 })
+    const b = new FireWind({ seed: 4 })
+    const position = new Vector3(1, 0, 2)
+
+    expect(a.sample(12.5, position)).toEqual(b.sample(12.5, position))
+    expect(a.sample(12.5, position)).not.toEqual(new FireWind({ seed: 5 }).sample(12.5, position))
+  })
+
+  it('gusts up to gustAmplitude above the base speed', () => {
+    const wind = new FireWind({ speed: 0.3, gustAmplitude: 0.4, turbulence: 0 })
+    const speeds = Array.from({ length: 200 }, (_, i) => wind.sample(i * 0.37, origin).x)
+
+    expect(Math.min(...speeds)).toBeGreaterThanOrEqual(0.3)
+    expect(Math.max(...speeds)).toBeLessThanOrEqual(0.7)
+    expect(Math.max(...speeds) - Math.min(...speeds)).toBeGreaterThan(0.1)
+  })
+
+  it('sweeps gusts downwind at the wind speed', () => {
+    const wind = new FireWind({ direction: [1, 0, 0], speed: 0.5, gustAmplitude: 1, turbulence: 0 })
+    const downwind = new Vector3(2, 0, 0)
+
+    // 2 units downwind at 0.5 units/s: the same gust arrives 4 s later
+    expect(wind.sample(7, downwind).x).toBeCloseTo(wind.sample(3, origin).x, 10)
+  })
+
+  it('adds horizontal turbulence that varies across the scene', () => {
+    const wind = new FireWind({ speed: 0, gustAmplitude: 0, turbulence: 0.2 })
+    const here = wind.sample(1, origin)
+    const there = wind.sample(1, new Vector3(3, 0, 1))
+
+    expect(here.y).toBe(0)
+    expect(here.distanceTo(there)).toBeGreaterThan(0)
+    expect(Math.abs(here.x)).toBeLessThanOrEqual(0.2)
+  })
+
+  it.each(backends)('drives subscribed %s instances from their world position', (_, create) => {
+    const wind = new FireWind({ seed: 2 })
+    const fire = create()
+    fire.position.set(3, 0, -1)
+    fire.timeScale = 0.5
+
+    const unsubscribe = wind.subscribe(fire)
+    fire.update(8)
+
+    expect(fire.windField).toBe(wind)
+    expect(fire.wind.toArray()).toEqual(wind.sample(8, fire.position).toArray())
+
+    unsubscribe()
+    const last = fire.wind.clone()
+    fire.update(9)
+
+    expect(fire.windField).toBeNull()
+    expect(fire.wind).toEqual(last)
+  })
+
+  it('leaves fires following another field alone on unsubscribe', () => {
+    const fire = new Fire({ fireTex: new Texture() })
+    const first = new FireWind()
+    const second = new FireWind()
+    first.subscribe(fire)
+    second.subscribe(fire)
+
+    first.unsubscribe(fire)
+
+    expect(fire.windField).toBe(second)
+  })
+})
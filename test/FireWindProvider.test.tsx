@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { render, renderHook } from '@testing-library/react'
+import { FireWindProvider, useFireWind } from '../src/FireWindProvider'
+import { FireWind } from '../src/FireWind'
+import { FireComponent } from '../src/FireComponent'
+import { Texture } from 'three'
+
+describe('FireWindProvider', () => {
+  it('provides a field configured from its props', () => {
+    const { result } = renderHook(() => useFireWind(), {
+      wrapper: ({ children }) => (
+        <FireWindProvider direction={[0, 0, 1]} speed={0.8} gustAmplitude={0.1} seed={3}>
+          {children}
+        </FireWindProvider>
+      ),
+    })
+
+    expect(result.current).toBeInstanceOf(FireWind)
+    expect(result.current?.direction.toArray()).toEqual([0, 0, 1])
+    expect(result.current?.speed).toBe(0.8)
+    expect(result.current?.gustAmplitude).toBe(0.1)
+    expect(result.current?.seed).toBe(3)
+  })
+
+  it('shares an existing field', () => {
+    const wind = new FireWind()
+    const { result } = renderHook(() => useFireWind(), {
+      wrapper: ({ children }) => (
+        <FireWindProvider wind={wind} speed={1.5}>
+          {children}
+        </FireWindProvider>
+      ),
+    })
+
+    expect(result.current).toBe(wind)
+    expect(wind.speed).toBe(1.5)
+  })
+
+  it('keeps the settings of a shared field the props leave out', () => {
+    const wind = new FireWind({
+      direction: [0, 0, 1],
+      gustAmplitude: 0.6,
+      turbulence: 0.4,
+      seed: 7,
+    })
+    renderHook(() => useFireWind(), {
+      wrapper: ({ children }) => (
+        <FireWindProvider wind={wind} speed={1.5}>
+          {children}
+        </FireWindProvider>
+      ),
+    })
+
+    expect(wind.direction.toArray()).toEqual([0, 0, 1])
+    expect(wind.speed).toBe(1.5)
+    expect(wind.gustAmplitude).toBe(0.6)
+    expect(wind.turbulence).toBe(0.4)
+    expect(wind.seed).toBe(7)
+  })
+
+  it('is null outside a provider', () => {
+    const { result } = renderHook(() => useFireWind())
+    expect(result.current).toBeNull()
+  })
+
+  it('renders fires inside it', () => {
+    const { container } = render(
+      <FireWindProvider>
+        <FireComponent texture={new Texture()} />
+        <FireComponent texture={new Texture()} windField={null} />
+      </FireWindProvider>,
+    )
+
+    expect(container).toBeTruthy()
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, renderHook } from '@testing-library/react'
+// @ts-expect-error test-only export of the R3F mock in test/setup.ts
+import { __advanceFrame } from '@react-three/fiber'
+import { Color, Group, Matrix4, Texture } from 'three'
+import { FiresComponent } from '../src/FiresComponent'
+import { FireInstance } from '../src/FireInstance'
+import { InstancedFire } from '../src/InstancedFire'
+import type { FireInstances } from '../src/internal/FireInstances'
+import { useFireBindings } from '../src/internal/useFireBindings'
+import { useFireInstances, type FireInstanceEntry } from '../src/internal/useFireInstances'
+import { instancedBackends } from './backends'
+
+const entry = (x: number, overrides: Partial<FireInstanceEntry> = {}): FireInstanceEntry => {
+  const object = new Group()
+  object.position.set(x, 0, 0)
+  return { object, seed: x, color: new Color(0xffffff), magnitude: 1, timeOffset: 0, ...overrides }
+}
+
+describe('Fires', () => {
+  it('renders its instances', () => {
+    const { container } = render(
+      <FiresComponent texture={new Texture()} limit={4}>
+        <FireInstance position={[1, 0, 0]} />
+        <FireInstance position={[2, 0, 0]} color="red" magnitude={0.5} timeOffset={1} />
+      </FiresComponent>,
+    )
+
+    expect(container).toBeTruthy()
+  })
+
+  it('renders with texture URL', () => {
+    const { container } = render(
+      <FiresComponent texture="/fire.png">
+        <FireInstance />
+      </FiresComponent>,
+    )
+
+    expect(container).toBeTruthy()
+  })
+
+  it('rejects a FireInstance outside of Fires', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(() => render(<FireInstance />)).toThrow('<FireInstance> must be placed inside <Fires>')
+
+    vi.mocked(console.error).mockRestore()
+  })
+})
+
+describe('useFireInstances', () => {
+  it('packs the registered instances into the fire each frame', () => {
+    const fire = new InstancedFire({ fireTex: new Texture(), count: 4 })
+    fire.position.set(0, 1, 0)
+    const { result } = renderHook(() => useFireInstances({ current: fire }))
+
+    result.current.add(entry(1))
+    const removed = result.current.add(entry(2, { color: new Color('red'), magnitude: 0.5 }))
+    result.current.add(entry(3, { timeOffset: 2 }))
+    removed()
+    __advanceFrame()
+
+    expect(fire.count).toBe(2)
+    expect(fire.getMatrixAt(0, new Matrix4()).equals(new Matrix4().makeTranslation(1, -1, 0))).toBe(
+      true,
+    )
+    expect(fire.getSeedAt(1)).toBe(3)
+    expect(fire.getTimeOffsetAt(1)).toBe(2)
+    expect(fire.getColorAt(1, new Color()).getHex()).toBe(0xffffff)
+  })
+
+  it('draws no more instances than the fire holds', () => {
+    const fire = new InstancedFire({ fireTex: new Texture(), count: 1 })
+    const { result } = renderHook(() => useFireInstances({ current: fire }))
+
+    result.current.add(entry(1))
+    result.current.add(entry(2))
+    __advanceFrame()
+
+    expect(fire.count).toBe(1)
+    expect(fire.getSeedAt(0)).toBe(1)
+  })
+})
+
+describe.each(instancedBackends)('%s in a frame', (_, createFire) => {
+  it("draws the instances with the frame's own inverse matrices", () => {
+    const fire = createFire()
+    const fireRef = { current: fire }
+    // Hook order of <Fires>: the update subscribes after the instances
+    const { result } = renderHook(() => {
+      const registry = useFireInstances(fireRef)
+      useFireBindings(null, fireRef, true)
+      return registry
+    })
+    const inverseAt = (index: number) =>
+      (fire as unknown as { instances: FireInstances }).instances.inverseAt(index, new Matrix4())
+    const first = entry(1)
+    result.current.add(first)
+    __advanceFrame()
+
+    expect(fire.count).toBe(1)
+    expect(inverseAt(0).equals(new Matrix4().makeTranslation(-1, 0, 0))).toBe(true)
+
+    first.object?.position.set(3, 0, 0)
+    result.current.add(entry(2))
+    __advanceFrame()
+
+    expect(fire.count).toBe(2)
+    expect(inverseAt(0).equals(new Matrix4().makeTranslation(-3, 0, 0))).toBe(true)
+    expect(inverseAt(1).equals(new Matrix4().makeTranslation(-2, 0, 0))).toBe(true)
+  })
+})
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BackSide,
+  Color,
+  DataTexture,
+  FrontSide,
+  Matrix4,
+  PerspectiveCamera,
+  Raycaster,
+  Texture,
+  Vector3,
+  type InterleavedBufferAttribute,
+} from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import { InstancedFire, type InstancedFireProps } from '../src/InstancedFire'
+import { InstancedFireTSL } from '../src/tsl/InstancedFireTSL'
+import { INSTANCE_FIRE_PARAMS, INSTANCE_INV_MODEL_MATRIX } from '../src/internal/FireInstances'
+import type { FireIntersection } from '../src/internal/AbstractFire'
+import type { FireProps } from '../src/Fire'
+
+/** Fully dense fire texture, so with no turbulence the flames fill the cylinder. */
+const solid = () => {
+  const texture = new DataTexture(new Uint8Array(4 * 4 * 4).fill(255), 4, 4)
+  texture.needsUpdate = true
+  return texture
+}
+
+/** 1x256 texture whose red channel rises with v, so turbulence shows in the density. */
+const verticalRamp = () => {
+  const data = new Uint8Array(256 * 4)
+  for (let r = 0; r < 256; r++) data[r * 4] = r
+  const texture = new DataTexture(data, 1, 256)
+  texture.needsUpdate = true
+  return texture
+}
+
+const translation = (x: number, y: number, z: number) => new Matrix4().makeTranslation(x, y, z)
+
+describe.each([
+  [
+    'InstancedFire',
+    (props: InstancedFireProps) => new InstancedFire(props),
+    (props: FireProps) => new Fire(props),
+  ],
+  [
+    'InstancedFireTSL',
+    (props: InstancedFireProps) => new InstancedFireTSL(props),
+    (props: FireProps) => new FireTSL(props),
+  ],
+])('%s', (_, create, createSingle) => {
+  it('looks like an InstancedMesh to the renderers', () => {
+    const fire = create({ fireTex: new Texture(), count: 3 })
+
+    expect(fire.isInstancedMesh).toBe(true)
+    expect(fire.count).toBe(3)
+    expect(fire.instanceMatrix.count).toBe(3)
+    expect(fire.getColorAt(2, new Color()).getHex()).toBe(0xffffff)
+    for (const name of [...INSTANCE_INV_MODEL_MATRIX, INSTANCE_FIRE_PARAMS]) {
+      expect(fire.geometry.getAttribute(name)).toBeDefined()
+    }
+  })
+
+  it('starts the instances with distinct seeds and neutral parameters', () => {
+    const fire = create({ fireTex: new Texture(), count: 2 })
+
+    expect(fire.getSeedAt(0)).not.toBe(fire.getSeedAt(1))
+    expect(fire.getMagnitudeAt(1)).toBe(1)
+    expect(fire.getTimeOffsetAt(1)).toBe(0)
+  })
+
+  it('round-trips the per-instance settings', () => {
+    const fire = create({ fireTex: new Texture(), count: 2 })
+    const matrix = translation(1, 2, 3)
+
+    fire.setMatrixAt(1, matrix)
+    fire.setColorAt(1, 'red')
+    fire.setSeedAt(1, 4.5)
+    fire.setMagnitudeAt(1, 0.5)
+    fire.setTimeOffsetAt(1, 2)
+
+    expect(fire.getMatrixAt(1, new Matrix4()).equals(matrix)).toBe(true)
+    expect(fire.getColorAt(1, new Color()).getHex()).toBe(0xff0000)
+    expect(fire.getSeedAt(1)).toBe(4.5)
+    expect(fire.getMagnitudeAt(1)).toBe(0.5)
+    expect(fire.getTimeOffsetAt(1)).toBe(2)
+  })
+
+  it('bounds all drawn instances and recomputes after a move', () => {
+    const fire = create({ fireTex: new Texture(), count: 2 })
+    fire.setMatrixAt(1, translation(10, 0, 0))
+    fire.computeBoundingBox()
+
+    expect(fire.boundingBox?.min.x).toBeCloseTo(-0.5)
+    expect(fire.boundingBox?.max.x).toBeCloseTo(10.5)
+
+    fire.setMatrixAt(1, translation(-10, 0, 0))
+    expect(fire.boundingBox).toBeNull()
+    fire.count = 1
+    fire.computeBoundingSphere()
+    expect(fire.boundingSphere?.center.length()).toBeCloseTo(0)
+  })
+
+  it('uploads the instance buffers again only when they change', () => {
+    const fire = create({ fireTex: new Texture(), count: 2 })
+    const params = fire.geometry.getAttribute(INSTANCE_FIRE_PARAMS) as InterleavedBufferAttribute
+    const inverses = fire.geometry.getAttribute(
+      INSTANCE_INV_MODEL_MATRIX[0],
+    ) as InterleavedBufferAttribute
+    const versions = () => [
+      fire.instanceMatrix.version,
+      fire.instanceColor.version,
+      params.data.version,
+      inverses.data.version,
+    ]
+    const write = () => {
+      fire.setMatrixAt(1, translation(3, 0, 0))
+      fire.setColorAt(1, 'red')
+      fire.setSeedAt(1, 4.5)
+      fire.setMagnitudeAt(1, 0.5)
+      fire.setTimeOffsetAt(1, 2)
+      fire.update(0)
+    }
+
+    write()
+    const written = versions()
+    fire.computeBoundingBox()
+    write()
+    expect(versions()).toEqual(written)
+    expect(fire.boundingBox).not.toBeNull()
+
+    fire.setMagnitudeAt(1, 0.75)
+    fire.position.x = 1
+    fire.update(0)
+    expect(versions()).toEqual([written[0], written[1], written[2] + 1, written[3] + 1])
+  })
+
+  it('refreshes the per-instance inverse matrices on update', () => {
+    const fire = create({ fireTex: new Texture(), count: 2 })
+    fire.position.set(0, 1, 0)
+    fire.scale.set(2, 2, 2)
+    fire.setMatrixAt(1, translation(3, 0, 0))
+
+    fire.update(0)
+
+    const expected = fire.matrixWorld
+      .clone()
+      .multiply(translation(3, 0, 0))
+      .invert()
+    const columns = INSTANCE_INV_MODEL_MATRIX.map((name) => fire.geometry.getAttribute(name))
+    const actual = new Matrix4()
+    for (let column = 0; column < 4; column++) {
+      for (let row = 0; row < 4; row++) {
+        actual.elements[column * 4 + row] = columns[column].getComponent(1, row)
+      }
+    }
+    for (let i = 0; i < 16; i++) expect(actual.elements[i]).toBeCloseTo(expected.elements[i])
+  })
+
+  it('samples each instance like a single fire with its own parameters', () => {
+    const fireTex = verticalRamp()
+    const fire = create({ fireTex, count: 2, seed: 1 })
+    fire.setMatrixAt(1, translation(5, 0, 0))
+    fire.setSeedAt(1, 2)
+    fire.setMagnitudeAt(1, 0.5)
+    fire.setTimeOffsetAt(1, 3)
+    fire.update(0)
+
+    const single = createSingle({ fireTex, seed: 3, magnitude: 1.3 * 0.5, timeOffset: 3 })
+    single.position.set(5, 0, 0)
+    single.update(0)
+
+    const point = new Vector3(5.1, 0.1, 0.05)
+    expect(fire.sampleDensity(point)).toBeGreaterThan(0)
+    expect(fire.sampleDensity(point)).toBeCloseTo(single.sampleDensity(point), 6)
+  })
+
+  it('reports which instance a ray hits', () => {
+    const fire = create({ fireTex: solid(), count: 2, magnitude: 0 })
+    fire.setMatrixAt(1, translation(3, 0, 0))
+    fire.updateMatrixWorld()
+
+    // Off the diagonal of the top face, which two triangles share
+    const down = (x: number) => new Raycaster(new Vector3(x, 5, 0.1), new Vector3(0, -1, 0))
+
+    expect(
+      down(3)
+        .intersectObject(fire)
+        .map((hit) => hit.instanceId),
+    ).toEqual([1])
+    expect(down(1.5).intersectObject(fire)).toEqual([])
+
+    fire.raycastThreshold = 0.5
+    fire.update(0)
+    const hits = down(3).intersectObject(fire) as FireIntersection[]
+    expect(hits).toHaveLength(1)
+    expect(hits[0].instanceId).toBe(1)
+    expect(hits[0].object).toBe(fire)
+    expect(hits[0].point.y).toBeCloseTo(0.5, 1)
+  })
+
+  it('switches to back faces while the camera is inside any instance', () => {
+    const fire = create({ fireTex: new Texture(), count: 2 })
+    fire.setMatrixAt(1, translation(4, 0, 0))
+    const camera = new PerspectiveCamera(75, 1, 0.01)
+    camera.position.set(4, 0, 0)
+    camera.updateMatrixWorld()
+
+    fire.update(0, camera)
+    expect(fire.material.side).toBe(BackSide)
+
+    fire.count = 1
+    fire.update(0, camera)
+    expect(fire.material.side).toBe(FrontSide)
+  })
+
+  it('lets the renderer release the instance buffers on dispose', () => {
+    const fire = create({ fireTex: new Texture(), count: 1 })
+    let disposed = 0
+    ;(
+      fire as unknown as { addEventListener(type: string, listener: () => void): void }
+    ).addEventListener('dispose', () => disposed++)
+
+    fire.dispose()
+
+    expect(disposed).toBe(1)
+  })
+})
+
+describe('InstancedFire (GLSL)', () => {
+  it('turns on the instanced shader path', () => {
+    const fire = new InstancedFire({ fireTex: new Texture(), count: 1 })
+
+    expect(fire.material.defines.FIRE_INSTANCED).toBeDefined()
+    expect(new Fire({ fireTex: new Texture() }).material.defines.FIRE_INSTANCED).toBeUndefined()
+  })
+})
+
+describe('InstancedFireTSL', () => {
+  it('keeps the instanced node graph when the quality changes', () => {
+    const fire = new InstancedFireTSL({ fireTex: new Texture(), count: 1 })
+    const before = fire.material.fragmentNode
+
+    fire.iterations = 10
+
+    expect(fire.material.fragmentNode).not.toBe(before)
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { Texture } from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import type { FireProps } from '../src/Fire'
+
+type Uniforms = Record<string, { value: number | { toArray(): number[] } }>
+
+// White-box access to each backend's uniform bag
+const uniformsOf = (fire: Fire | FireTSL) =>
+  fire instanceof Fire
+    ? (fire.material.uniforms as Uniforms)
+    : (fire as unknown as { uniforms: Uniforms }).uniforms
+
+const SHARED_UNIFORMS = [
+  'time',
+  'seed',
+  'color',
+  'invModelMatrix',
+  'scale',
+  'noiseScale',
+  'magnitude',
+  'lacunarity',
+  'gain',
+  'minTemperature',
+  'maxTemperature',
+  'wind',
+  'windDrift',
+  'lean',
+  'densityCutoff',
+  'jitterFrame',
+]
+
+const snapshot = (fire: Fire | FireTSL) => {
+  const uniforms = uniformsOf(fire)
+  return Object.fromEntries(
+    SHARED_UNIFORMS.map((name) => {
+      const value = uniforms[name].value
+      return [name, typeof value === 'number' ? value : value.toArray()]
+    }),
+  )
+}
+
+describe('GLSL / TSL parity', () => {
+  const props: Omit<FireProps, 'fireTex'> = {
+    color: 0xff6a00,
+    noiseScale: [1, 3, 1, 0.4],
+    magnitude: 1.7,
+    lacunarity: 2.2,
+    gain: 0.45,
+    wind: [0.3, 0, -0.2],
+    seed: 12.34,
+  }
+
+  const place = <T extends Fire | FireTSL>(fire: T) => {
+    fire.position.set(1, 2, 3)
+    fire.rotation.set(0.1, 0.2, 0.3)
+    fire.scale.set(1, 3, 1)
+    fire.update(5.25)
+    return fire
+  }
+
+  it('produces identical uniforms for the same seed, time and parameters', () => {
+    const glsl = place(new Fire({ fireTex: new Texture(), ...props }))
+    const tsl = place(new FireTSL({ fireTex: new Texture(), ...props }))
+
+    expect(snapshot(tsl)).toEqual(snapshot(glsl))
+  })
+
+  it('keeps the same timeline under pause, timeScale and timeOffset', () => {
+    const drive = <T extends Fire | FireTSL>(fire: T) => {
+      fire.timeOffset = 3
+      fire.update(1.0)
+      fire.paused = true
+      fire.update(2.5)
+      fire.paused = false
+      fire.timeScale = 0.25
+      fire.update(4.5)
+      return fire
+    }
+    const glsl = drive(new Fire({ fireTex: new Texture(), ...props }))
+    const tsl = drive(new FireTSL({ fireTex: new Texture(), ...props }))
+
+    expect(tsl.time).toBe(glsl.time)
+    expect(snapshot(tsl)).toEqual(snapshot(glsl))
+  })
+
+  it('is reproducible across instances of the same backend', () => {
+    const a = place(new Fire({ fireTex: new Texture(), ...props }))
+    const b = place(new Fire({ fireTex: new Texture(), ...props }))
+
+    expect(snapshot(b)).toEqual(snapshot(a))
+  })
+})
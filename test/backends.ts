@@ -0,0 +1,32 @@
+import { Texture } from 'three'
+import { Fire, type FireProps } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import { InstancedFire, type InstancedFireProps } from '../src/InstancedFire'
+import { InstancedFireTSL } from '../src/tsl/InstancedFireTSL'
+
+/**
+ * Both fire backends, for `describe.each`: each name with a factory making a
+ * fire from the given props, on a blank texture unless they hold one.
+ */
+export const backends: [string, (props?: Partial<FireProps>) => Fire | FireTSL][] = [
+  ['Fire', (props = {}) => new Fire({ fireTex: new Texture(), ...props })],
+  ['FireTSL', (props = {}) => new FireTSL({ fireTex: new Texture(), ...props })],
+]
+
+/**
+ * Both instanced fire backends, for `describe.each`, making two instances
+ * unless the props say otherwise.
+ */
+export const instancedBackends: [
+  string,
+  (props?: Partial<InstancedFireProps>) => InstancedFire | InstancedFireTSL,
+][] = [
+  [
+    'InstancedFire',
+    (props = {}) => new InstancedFire({ fireTex: new Texture(), count: 2, ...props }),
+  ],
+  [
+    'InstancedFireTSL',
+    (props = {}) => new InstancedFireTSL({ fireTex: new Texture(), count: 2, ...props }),
+  ],
+]
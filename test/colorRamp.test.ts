@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { Color, type DataTexture, SRGBColorSpace, Texture } from 'three'
+import { createColorRampTexture, isSameColorRamp } from '../src/colorRamp'
+
+// Reads texel `i` back as a linear color, the way the shader sees it
+const texel = (texture: DataTexture, i: number) => {
+  const data = texture.image.data as Uint8Array
+  return new Color().setRGB(
+    data[i * 4] / 255,
+    data[i * 4 + 1] / 255,
+    data[i * 4 + 2] / 255,
+    SRGBColorSpace,
+  )
+}
+
+describe('createColorRampTexture', () => {
+  it('bakes the stops into an sRGB 1D texture', () => {
+    const texture = createColorRampTexture([
+      [0, 0xff0000],
+      [1, 0x0000ff],
+    ])
+
+    expect(texture.image.width).toBe(256)
+    expect(texture.image.height).toBe(1)
+    expect(texture.colorSpace).toBe(SRGBColorSpace)
+    expect(texel(texture, 0).getHex()).toBe(0xff0000)
+    expect(texel(texture, 255).getHex()).toBe(0x0000ff)
+  })
+
+  it('interpolates between stops in linear space', () => {
+    const texture = createColorRampTexture([
+      [0, 'black'],
+      [1, 'white'],
+    ])
+    const middle = texel(texture, 128)
+    expect(middle.r).toBeCloseTo(128 / 255, 1)
+  })
+
+  it('sorts and clamps offsets and holds the end colors beyond them', () => {
+    const texture = createColorRampTexture([
+      [0.75, 'yellow'],
+      [-1, 'red'],
+      [0.5, 'red'],
+    ])
+
+    expect(texel(texture, 64).getHex()).toBe(0xff0000)
+    expect(texel(texture, 250).getHex()).toBe(0xffff00)
+  })
+
+  it('refills a target texture in place', () => {
+    const texture = createColorRampTexture([[0, 'red']])
+    const version = texture.version
+
+    const refilled = createColorRampTexture([[0, 'blue']], texture)
+
+    expect(refilled).toBe(texture)
+    expect(texture.version).toBeGreaterThan(version)
+    expect(texel(texture, 0).getHex()).toBe(0x0000ff)
+  })
+
+  it('requires at least one stop', () => {
+    expect(() => createColorRampTexture([])).toThrow()
+  })
+})
+
+describe('isSameColorRamp', () => {
+  it('compares stops by value and textures by identity', () => {
+    const texture = new Texture()
+
+    expect(isSameColorRamp([[0, 'red']], [[0, 0xff0000]])).toBe(true)
+    expect(isSameColorRamp([[0, 'red']], [[0.5, 'red']])).toBe(false)
+    expect(
+      isSameColorRamp(
+        [[0, 'red']],
+        [
+          [0, 'red'],
+          [1, 'blue'],
+        ],
+      ),
+    ).toBe(false)
+    expect(isSameColorRamp(texture, texture)).toBe(true)
+    expect(isSameColorRamp(texture, new Texture())).toBe(false)
+    expect(isSameColorRamp(null, [[0, 'red']])).toBe(false)
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import { DataTexture, Texture, Vector3 } from 'three'
+import { Fire } from '../src/Fire'
+import { FireShader } from '../src/FireShader'
+import { FireTSL } from '../src/tsl/FireTSL'
+import type { FireVariant } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+// White-box access to the variant the shader is built for
+const drawn = (fire: Fire | FireTSL) => (fire as unknown as { variant: FireVariant }).variant
+
+/**
+ * 32x32 flame mask: dense along the axis near the base, thinning out towards
+ * the rim and the tip. Columns run along the radius, rows up the flame.
+ */
+const flameMask = () => {
+  const size = 32
+  const data = new Uint8Array(size * size * 4)
+  for (let row = 0; row < size; row++) {
+    const v = (row + 0.5) / size
+    const width = 0.8 * Math.sqrt(1 - v)
+    for (let column = 0; column < size; column++) {
+      const u = (column + 0.5) / size
+      data[(row * size + column) * 4] = Math.round(255 * Math.max(0, 1 - u / width))
+    }
+  }
+  const texture = new DataTexture(data, size, size)
+  texture.needsUpdate = true
+  return texture
+}
+
+interface MarchCost {
+  /** Samples taken, over all rays */
+  samples: number
+  /** Each ray's accumulated density */
+  density: number[]
+}
+
+/**
+ * A CPU copy of the shaders' ray march through `sampleDensity`: `rays`² rays from `eye` through
+ * the front face of a fire at the origin, `iterations` samples each, ending a
+ * ray once its density reaches `cutoff`.
+ */
+const march = (
+  fire: Fire | FireTSL,
+  eye: Vector3,
+  rays: number,
+  iterations: number,
+  cutoff = Number.POSITIVE_INFINITY,
+): MarchCost => {
+  const cost: MarchCost = { samples: 0, density: [] }
+  const target = new Vector3()
+  const dir = new Vector3()
+  const point = new Vector3()
+
+  for (let row = 0; row < rays; row++) {
+    for (let column = 0; column < rays; column++) {
+      target.set((column + 0.5) / rays - 0.5, (row + 0.5) / rays - 0.5, 0.5)
+      dir.subVectors(target, eye).normalize()
+
+      // Entry and exit of the unit box
+      let tNear = 0
+      let tFar = Number.POSITIVE_INFINITY
+      for (const axis of ['x', 'y', 'z'] as const) {
+        const t0 = (-0.5 - eye[axis]) / dir[axis]
+        const t1 = (0.5 - eye[axis]) / dir[axis]
+        tNear = Math.max(tNear, Math.min(t0, t1))
+        tFar = Math.min(tFar, Math.max(t0, t1))
+      }
+      const stepLen = Math.max(tFar - tNear, 0) / iterations
+      const stepWeight = stepLen * 20
+
+      let density = 0
+      for (let i = 0; i < iterations; i++) {
+        point.copy(eye).addScaledVector(dir, tNear + (i + 0.5) * stepLen)
+        cost.samples++
+        density += fire.sampleDensity(point) * stepWeight
+        if (density >= cutoff) break
+      }
+      cost.density.push(density)
+    }
+  }
+  return cost
+}
+
+const opacity = (cost: MarchCost) => cost.density.map((density) => Math.min(density, 1))
+
+describe.each(backends)('%s density cutoff', (_, create) => {
+  it('is off by default', () => {
+    const fire = create()
+
+    expect(fire.densityCutoff).toBeNull()
+    expect(drawn(fire).earlyExit).toBe(false)
+    fire.dispose()
+  })
+
+  it('switches the shader only when turned on or off', () => {
+    const fire = create({ densityCutoff: 1.5 })
+    expect(fire.densityCutoff).toBe(1.5)
+    expect(drawn(fire).earlyExit).toBe(true)
+
+    const node = fire.material.fragmentNode
+    const version = fire.material.version
+    fire.densityCutoff = 0.8
+    expect(fire.densityCutoff).toBe(0.8)
+    expect(fire.material.fragmentNode).toBe(node)
+    expect(fire.material.version).toBe(version)
+
+    fire.densityCutoff = null
+    expect(fire.densityCutoff).toBeNull()
+    expect(drawn(fire).earlyExit).toBe(false)
+    expect(fire.material.version).toBeGreaterThan(version)
+    fire.dispose()
+  })
+})
+
+describe('Fire density cutoff', () => {
+  it('ends the march once the gathered density reaches the cutoff', () => {
+    expect(FireShader.fragmentShader).toMatch(
+      /#ifdef FIRE_EARLY_EXIT\s*\/\/[^\n]*\s*if\(col\.r >= densityCutoff\) \{\s*break;\s*\}\s*#endif/,
+    )
+  })
+
+  it('defines FIRE_EARLY_EXIT while set', () => {
+    const fire = new Fire({ fireTex: new Texture(), densityCutoff: 1 })
+    expect(fire.material.defines.FIRE_EARLY_EXIT).toBe('')
+    expect(fire.material.uniforms.densityCutoff.value).toBe(1)
+
+    fire.densityCutoff = null
+    expect(fire.material.defines.FIRE_EARLY_EXIT).toBeUndefined()
+    fire.dispose()
+  })
+})
+
+describe('FireTSL density cutoff', () => {
+  it('draws with its own shared graph', () => {
+    const fireTex = new Texture()
+    const full = new FireTSL({ fireTex })
+    const a = new FireTSL({ fireTex, densityCutoff: 1 })
+    const b = new FireTSL({ fireTex, densityCutoff: 2 })
+
+    expect(b.material.fragmentNode).toBe(a.material.fragmentNode)
+    expect(a.material.fragmentNode).not.toBe(full.material.fragmentNode)
+
+    for (const fire of [full, a, b]) fire.dispose()
+  })
+})
+
+describe.each(backends)('%s march cost', (_, create) => {
+  const fire = create({ fireTex: flameMask(), seed: 4.2 })
+  fire.update(1.5)
+
+  it.each([
+    ['level', new Vector3(0, 0, 3)],
+    ['from above', new Vector3(0, 2, 2.5)],
+  ])('leaves the opacity of rays ended at the cutoff unchanged, viewed %s', (_, eye) => {
+    const full = march(fire, eye, 24, 20)
+    const early = march(fire, eye, 24, 20, 1)
+
+    // Rays through the dense core do end early...
+    expect(full.samples).toBe(24 * 24 * 20)
+    expect(early.samples).toBeLessThan(full.samples * 0.96)
+    // ...but only once they are opaque
+    expect(opacity(early)).toEqual(opacity(full))
+  })
+})
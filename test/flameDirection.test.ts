@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { Group, Matrix4, Vector3 } from 'three'
+import type { Fire } from '../src/Fire'
+import type { FireTSL } from '../src/tsl/FireTSL'
+import { FireLight } from '../src/FireLight'
+import type { FireUniformBag } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+type AnyFire = Fire | FireTSL
+
+// White-box access to the uniform bag both backends share
+const uniformsOf = (fire: AnyFire) =>
+  (fire as unknown as { getUniforms(): FireUniformBag }).getUniforms()
+
+/** World direction of the fire's local +Y axis (the flame axis). */
+const flameAxis = (fire: AnyFire) => new Vector3(0, 1, 0).transformDirection(fire.matrixWorld)
+
+const expectVector = (actual: Vector3, expected: [number, number, number]) => {
+  actual.toArray().forEach((value, i) => {
+    expect(value).toBeCloseTo(expected[i], 6)
+  })
+}
+
+describe.each(backends)('%s flameDirection', (_, create) => {
+  it('rotates with the fire by default', () => {
+    const fire = create()
+    fire.rotation.z = Math.PI / 2
+    fire.update()
+
+    expect(fire.flameDirection).toBeNull()
+    expectVector(flameAxis(fire), [-1, 0, 0])
+  })
+
+  it('keeps the flames rising along the given world direction', () => {
+    const fire = create()
+    fire.flameDirection = [0, 1, 0]
+    fire.position.set(2, 3, 4)
+    fire.rotation.set(0.7, 0.2, -1.1)
+    fire.scale.set(1, 2, 1)
+    fire.update()
+
+    expectVector(flameAxis(fire), [0, 1, 0])
+    expectVector(new Vector3().setFromMatrixPosition(fire.matrixWorld), [2, 3, 4])
+    expectVector(new Vector3().setFromMatrixScale(fire.matrixWorld), [1, 2, 1])
+    expect(uniformsOf(fire).invModelMatrix.value).toEqual(fire.matrixWorld.clone().invert())
+  })
+
+  it('follows the fire through a rotated parent', () => {
+    const bracket = new Group()
+    bracket.rotation.x = Math.PI / 3
+    bracket.position.set(0, 5, 0)
+    const fire = create()
+    fire.position.set(0, 1, 0)
+    fire.flameDirection = [0, 1, 0]
+    bracket.add(fire)
+    bracket.updateMatrixWorld()
+
+    expectVector(flameAxis(fire), [0, 1, 0])
+    expectVector(new Vector3().setFromMatrixPosition(fire.matrixWorld), [
+      0,
+      5 + Math.cos(Math.PI / 3),
+      Math.sin(Math.PI / 3),
+    ])
+
+    // Ad-hoc world matrix refreshes keep the alignment too
+    fire.getWorldPosition(new Vector3())
+    expectVector(flameAxis(fire), [0, 1, 0])
+  })
+
+  it('keeps the heading around the flame axis', () => {
+    const fire = create()
+    fire.rotation.y = 1.2
+    fire.update()
+    const free = fire.matrixWorld.clone()
+
+    fire.flameDirection = [0, 1, 0]
+    fire.update()
+
+    fire.matrixWorld.elements.forEach((value, i) => {
+      expect(value).toBeCloseTo(free.elements[i], 6)
+    })
+  })
+
+  it('aligns to any world vector and back', () => {
+    const fire = create()
+    fire.flameDirection = new Vector3(2, 0, 0)
+    fire.update()
+    expectVector(flameAxis(fire), [1, 0, 0])
+
+    fire.flameDirection = null
+    fire.update()
+    expect(fire.matrixWorld.equals(new Matrix4())).toBe(true)
+  })
+
+  it('rotates with the fire for a zero-length direction', () => {
+    const fire = create({ wind: [1, 0, 0] })
+    fire.rotation.z = Math.PI / 2
+    fire.flameDirection = [0, 0, 0]
+    fire.update(1)
+
+    expect(fire.flameDirection).toBeNull()
+    expectVector(flameAxis(fire), [-1, 0, 0])
+
+    fire.flameDirection = [0, 1, 0]
+    fire.flameDirection.set(0, 0, 0)
+    fire.update(2)
+
+    expectVector(flameAxis(fire), [-1, 0, 0])
+    for (const value of uniformsOf(fire).windDrift.value.toArray()) {
+      expect(Number.isFinite(value)).toBe(true)
+    }
+  })
+
+  it('carries children along with the upright volume', () => {
+    const fire = create()
+    const light = new FireLight(fire)
+    fire.rotation.x = Math.PI
+    fire.flameDirection = [0, 1, 0]
+    fire.update()
+
+    expectVector(light.getWorldPosition(new Vector3()), [0, -0.25, 0])
+  })
+})
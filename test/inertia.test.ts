@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { Texture } from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import type { FireUniformBag } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+type AnyFire = Fire | FireTSL
+
+// White-box access to the uniform bag both backends share
+const leanOf = (fire: AnyFire) =>
+  (fire as unknown as { getUniforms(): FireUniformBag }).getUniforms().lean.value
+
+/** Moves the fire along +X at `speed` for `seconds`, updating at 60 fps from `start`. */
+const carry = (fire: AnyFire, speed: number, seconds: number, start = 0) => {
+  const frames = Math.round(seconds * 60)
+  for (let i = 1; i <= frames; i++) {
+    fire.position.x += speed / 60
+    fire.update(start + i / 60)
+  }
+  return start + frames / 60
+}
+
+describe.each(backends)('%s inertia', (_, create) => {
+  it('is off by default', () => {
+    const fire = create()
+    fire.update(0)
+    carry(fire, 2, 1)
+
+    expect(leanOf(fire).length()).toBeCloseTo(0, 10)
+  })
+
+  it('trails steady motion by inertia seconds of travel', () => {
+    const fire = create()
+    fire.inertia = 0.1
+    fire.update(0)
+    carry(fire, 2, 2)
+
+    expect(leanOf(fire).x).toBeCloseTo(-0.2, 3)
+    expect(leanOf(fire).z).toBeCloseTo(0, 6)
+  })
+
+  it('hands the shader the trail in local space', () => {
+    const fire = create()
+    fire.inertia = 0.1
+    fire.rotation.y = Math.PI / 2
+    fire.scale.setScalar(2)
+    fire.update(0)
+    carry(fire, 2, 2)
+
+    // World -X is local -Z after the quarter turn, halved by the scale
+    expect(leanOf(fire).x).toBeCloseTo(0, 3)
+    expect(leanOf(fire).z).toBeCloseTo(-0.1, 3)
+  })
+
+  it('springs back upright, with some sway, once the fire stops', () => {
+    const fire = create()
+    fire.inertia = 0.1
+    fire.update(0)
+    let time = carry(fire, 2, 1)
+
+    let overshoot = 0
+    for (let i = 0; i < 120; i++) {
+      time += 1 / 60
+      fire.update(time)
+      overshoot = Math.max(overshoot, leanOf(fire).x)
+    }
+
+    expect(overshoot).toBeGreaterThan(0)
+    expect(leanOf(fire).x).toBeCloseTo(0, 3)
+  })
+
+  it('does not react to the first update or to paused frames', () => {
+    const fire = create()
+    fire.inertia = 0.1
+    fire.position.x = 50
+    fire.update(0)
+    expect(leanOf(fire).x).toBeCloseTo(0, 10)
+
+    fire.paused = true
+    carry(fire, 2, 0.5)
+    expect(leanOf(fire).x).toBeCloseTo(0, 10)
+  })
+
+  it('forgets its motion on restart', () => {
+    const fire = create()
+    fire.inertia = 0.1
+    fire.update(0)
+    const time = carry(fire, 2, 1)
+
+    fire.restart()
+    fire.position.x = -100
+    fire.update(time + 1 / 60)
+    expect(fire.time).toBe(0)
+    fire.update(time + 2 / 60)
+
+    expect(leanOf(fire).length()).toBeCloseTo(0, 10)
+    expect(fire.time).toBeCloseTo(1 / 60)
+  })
+})
+
+describe('inertia parity', () => {
+  it('leans GLSL and TSL fires identically', () => {
+    const glsl = new Fire({ fireTex: new Texture(), inertia: 0.2, inertiaDamping: 4 })
+    const tsl = new FireTSL({ fireTex: new Texture(), inertia: 0.2, inertiaDamping: 4 })
+    for (const fire of [glsl, tsl]) {
+      fire.update(0)
+      carry(fire, 3, 0.4)
+    }
+
+    expect(leanOf(tsl).toArray()).toEqual(leanOf(glsl).toArray())
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { Texture } from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import type { FireUniformBag, FireVariant } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+// White-box access to the variant the shader is built for and its uniforms
+const drawn = (fire: Fire | FireTSL) => (fire as unknown as { variant: FireVariant }).variant
+const uniformsOf = (fire: Fire | FireTSL) =>
+  (fire as unknown as { getUniforms(): FireUniformBag }).getUniforms()
+
+describe.each(backends)('%s jitter', (_, create) => {
+  it('is off by default', () => {
+    const fire = create()
+
+    expect(fire.jitter).toBe(false)
+    expect(fire.jitterAnimated).toBe(false)
+    expect(drawn(fire).jitter).toBe(false)
+    fire.dispose()
+  })
+
+  it('recompiles the shader when switched', () => {
+    const fire = create({ jitter: true })
+    expect(drawn(fire).jitter).toBe(true)
+
+    const version = fire.material.version
+    fire.jitter = true
+    expect(fire.material.version).toBe(version)
+    fire.jitter = false
+    expect(drawn(fire).jitter).toBe(false)
+    expect(fire.material.version).toBeGreaterThan(version)
+    fire.dispose()
+  })
+
+  it('keeps a fixed pattern unless animated', () => {
+    const fire = create({ jitter: true })
+    fire.update(0)
+    fire.update(1)
+    expect(uniformsOf(fire).jitterFrame.value).toBe(0)
+
+    fire.jitterAnimated = true
+    fire.update(2)
+    fire.update(3)
+    expect(uniformsOf(fire).jitterFrame.value).toBe(2)
+    fire.dispose()
+  })
+
+  it('cycles the animated pattern every 64 frames', () => {
+    const fire = create({ jitter: true, jitterAnimated: true, paused: true })
+    for (let frame = 0; frame < 70; frame++) fire.update(frame / 60)
+
+    expect(uniformsOf(fire).jitterFrame.value).toBe(6)
+    fire.dispose()
+  })
+})
+
+describe('Fire jitter', () => {
+  it('defines FIRE_JITTER while on', () => {
+    const fire = new Fire({ fireTex: new Texture(), jitter: true })
+    expect(fire.material.defines.FIRE_JITTER).toBe('')
+
+    fire.jitter = false
+    expect(fire.material.defines.FIRE_JITTER).toBeUndefined()
+    fire.dispose()
+  })
+})
+
+describe('FireTSL jitter', () => {
+  it('draws with its own shared graph', () => {
+    const fireTex = new Texture()
+    const plain = new FireTSL({ fireTex })
+    const a = new FireTSL({ fireTex, jitter: true })
+    const b = new FireTSL({ fireTex, jitter: true, jitterAnimated: true })
+
+    expect(b.material.fragmentNode).toBe(a.material.fragmentNode)
+    expect(a.material.fragmentNode).not.toBe(plain.material.fragmentNode)
+
+    for (const fire of [plain, a, b]) fire.dispose()
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { Matrix4, Object3D, OrthographicCamera, PerspectiveCamera, Texture } from 'three'
+import type { Fire } from '../src/Fire'
+import type { FireTSL } from '../src/tsl/FireTSL'
+import { InstancedFire } from '../src/InstancedFire'
+import type { FireLodLevel, FireVariant } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+// White-box access to the variant the shader is built for
+const drawn = (fire: Fire | FireTSL) => (fire as unknown as { variant: FireVariant }).variant
+
+const LEVELS: FireLodLevel[] = [
+  { minScreenSize: 0.1, iterations: 10, octaves: 2 },
+  { minScreenSize: 0.4, iterations: 20, octaves: 3 },
+  { minScreenSize: 0, iterations: 5, octaves: 1 },
+]
+
+/** A 90° camera on the +Z axis, looking at the origin from `distance`. */
+const cameraAt = (distance: number) => {
+  const camera = new PerspectiveCamera(90, 1, 0.1, 1000)
+  camera.position.set(0, 0, distance)
+  camera.updateMatrixWorld()
+  return camera
+}
+
+/** Distance at which a unit fire covers `size` of a 90° viewport. */
+const distanceFor = (size: number) => Math.sqrt(3) / 2 / size
+
+describe.each(backends)('%s level of detail', (_, create) => {
+  it('measures its bounding sphere against the viewport height', () => {
+    const fire = create()
+    fire.scale.set(2, 2, 2)
+    fire.update(0)
+
+    expect(fire.getScreenSize(cameraAt(10))).toBeCloseTo(Math.sqrt(3) / 10)
+    expect(fire.getScreenSize(cameraAt(1))).toBe(Number.POSITIVE_INFINITY)
+
+    const ortho = new OrthographicCamera(-5, 5, 5, -5)
+    ortho.zoom = 2
+    expect(fire.getScreenSize(ortho)).toBeCloseTo((Math.sqrt(12) * 2) / 10)
+    fire.dispose()
+  })
+
+  it('draws with its own quality without levels', () => {
+    const fire = create()
+    fire.update(0, cameraAt(100))
+
+    expect(fire.lod).toBeNull()
+    expect(fire.lodLevel).toBe(-1)
+    expect(drawn(fire)).toMatchObject({ iterations: 20, octaves: 3 })
+    fire.dispose()
+  })
+
+  it('picks the level for its screen size, largest first', () => {
+    const fire = create({ lod: LEVELS })
+    expect(fire.lod?.map((level) => level.minScreenSize)).toEqual([0.4, 0.1, 0])
+
+    fire.update(0, cameraAt(distanceFor(0.2)))
+    expect(fire.lodLevel).toBe(1)
+    expect(drawn(fire)).toMatchObject({ iterations: 10, octaves: 2 })
+    // The configured quality is kept for when the levels are removed
+    expect(fire.iterations).toBe(20)
+
+    fire.lod = null
+    expect(drawn(fire)).toMatchObject({ iterations: 20, octaves: 3 })
+    fire.dispose()
+  })
+
+  it('waits for the hysteresis margin before switching', () => {
+    const fire = create({ lod: LEVELS })
+    fire.update(0, cameraAt(distanceFor(0.2)))
+
+    fire.update(0, cameraAt(distanceFor(0.42)))
+    expect(fire.lodLevel).toBe(1)
+    fire.update(0, cameraAt(distanceFor(0.45)))
+    expect(fire.lodLevel).toBe(0)
+
+    fire.update(0, cameraAt(distanceFor(0.38)))
+    expect(fire.lodLevel).toBe(0)
+    fire.update(0, cameraAt(distanceFor(0.35)))
+    expect(fire.lodLevel).toBe(1)
+
+    fire.update(0, cameraAt(distanceFor(0.01)))
+    expect(fire.lodLevel).toBe(2)
+    expect(drawn(fire)).toMatchObject({ iterations: 5, octaves: 1 })
+    fire.dispose()
+  })
+
+  it('keeps the level when given equal levels again', () => {
+    const fire = create({ lod: LEVELS })
+    fire.update(0, cameraAt(distanceFor(0.2)))
+
+    fire.lod = LEVELS.map((level) => ({ ...level }))
+    expect(fire.lodLevel).toBe(1)
+
+    fire.lod = [{ minScreenSize: 0, iterations: 8, octaves: 1 }]
+    expect(fire.lodLevel).toBe(-1)
+    fire.dispose()
+  })
+
+  it('swaps the volume for an impostor', () => {
+    const impostor = new Object3D()
+    const fire = create({
+      lod: [
+        { minScreenSize: 0.1, iterations: 12, octaves: 2 },
+        { minScreenSize: 0, iterations: 12, octaves: 2, impostor },
+      ],
+    })
+    fire.add(impostor)
+
+    fire.update(0, cameraAt(distanceFor(0.05)))
+    expect(impostor.visible).toBe(true)
+    expect(fire.material.visible).toBe(false)
+
+    fire.update(0, cameraAt(distanceFor(0.5)))
+    expect(impostor.visible).toBe(false)
+    expect(fire.material.visible).toBe(true)
+
+    fire.update(0, cameraAt(distanceFor(0.05)))
+    fire.lod = null
+    expect(impostor.visible).toBe(false)
+    expect(fire.material.visible).toBe(true)
+    fire.dispose()
+  })
+})
+
+describe('InstancedFire level of detail', () => {
+  it('is picked by the nearest instance', () => {
+    const fire = new InstancedFire({ fireTex: new Texture(), count: 2, lod: LEVELS })
+    fire.setMatrixAt(0, new Matrix4().makeTranslation(0, 0, -1000))
+    fire.setMatrixAt(1, new Matrix4().makeTranslation(0, 0, -distanceFor(0.2)))
+    fire.update(0, cameraAt(0))
+
+    expect(fire.getScreenSize(cameraAt(0))).toBeCloseTo(0.2)
+    expect(fire.lodLevel).toBe(1)
+    expect(fire.material.defines.ITERATIONS).toBe('10')
+    fire.dispose()
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { simplexNoise, perlinNoise, turbulence } from '../src/internal/noise'
+
+const points = Array.from({ length: 200 }, (_, i) => [
+  Math.sin(i * 12.9898) * 7.3,
+  Math.cos(i * 78.233) * 5.1,
+  ((i * 0.618) % 1) * 9 - 4.5,
+])
+
+/**
+ * `[x, y, z, simplex, Perlin]`: the shaders' own noise at a few points,
+ * evaluated in double precision from the GLSL `snoise` of `FireShader` and from
+ * the GLSL three.js r185 generates for TSL's `mx_noise_float`. The ports hash in
+ * single precision like the GPU, so they agree to about 5 digits.
+ */
+const GOLDEN = [
+  [0.1, 0.2, 0.3, -0.4755017, -0.2371653],
+  [1.7, -0.4, 2.25, 0.3715279, 0.2724211],
+  [-3.1, 0.85, 0.6, 0.0929699, -0.1530166],
+  [5.5, 2.2, -1.3, 0.0682167, -0.0340538],
+  [0.37, 4.1, -2.8, -0.6237547, -0.6194793],
+  [-12.6, 7.45, 31.2, 0.1239239, 0.0249096],
+]
+
+describe('noise ports', () => {
+  it.each(GOLDEN)('match the reference shaders at (%s, %s, %s)', (x, y, z, simplex, perlin) => {
+    expect(simplexNoise(x, y, z)).toBeCloseTo(simplex, 5)
+    expect(perlinNoise(x, y, z)).toBeCloseTo(perlin, 5)
+  })
+
+  it.each([
+    ['simplex', simplexNoise],
+    ['Perlin', perlinNoise],
+  ])('%s noise stays in [-1, 1] and varies', (_, noise) => {
+    const values = points.map(([x, y, z]) => noise(x, y, z))
+
+    for (const v of values) {
+      expect(Math.abs(v)).toBeLessThanOrEqual(1)
+    }
+    expect(Math.max(...values) - Math.min(...values)).toBeGreaterThan(0.5)
+  })
+
+  it.each([
+    ['simplex', simplexNoise],
+    ['Perlin', perlinNoise],
+  ])('%s noise is continuous', (_, noise) => {
+    for (const [x, y, z] of points) {
+      expect(Math.abs(noise(x, y, z) - noise(x + 1e-4, y, z + 1e-4))).toBeLessThan(0.01)
+    }
+  })
+
+  it('Perlin noise vanishes on the integer lattice', () => {
+    expect(perlinNoise(0, 0, 0)).toBe(0)
+    expect(perlinNoise(3, -2, 7)).toBe(0)
+  })
+
+  it('hashes simplex lattice points in single precision like the GPU', () => {
+    // In double precision these points pick gradients outside the octahedron
+    // and overshoot far past 1
+    expect(
+      Math.abs(simplexNoise(7.148536636326341, -4.580824877309561, -2.7180000000012114)),
+    ).toBeLessThan(1)
+  })
+})
+
+describe('turbulence', () => {
+  it('sums absolute noise over octaves with lacunarity and gain', () => {
+    const calls: number[] = []
+    const noise = (x: number) => {
+      calls.push(x)
+      return -1
+    }
+
+    expect(turbulence(noise, 1, 0, 0, 3, 2, 0.5)).toBe(1 + 0.5 + 0.25)
+    expect(calls).toEqual([1, 2, 4])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { BoxGeometry, DataTexture, Mesh, MeshBasicMaterial, Raycaster, Vector3 } from 'three'
+import type { FireIntersection } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+/** Fully dense fire texture, so with no turbulence the flames fill the cylinder. */
+const solid = () => {
+  const texture = new DataTexture(new Uint8Array(4 * 4 * 4).fill(255), 4, 4)
+  texture.needsUpdate = true
+  return texture
+}
+
+const ray = (origin: [number, number, number], direction: [number, number, number]) =>
+  new Raycaster(new Vector3(...origin), new Vector3(...direction).normalize())
+
+describe.each(backends)('%s raycast', (_, create) => {
+  // Straight down through a corner of the box, outside the flame cylinder
+  const throughCorner = () => ray([0.45, 5, 0.45], [0, -1, 0])
+
+  it('hits the bounding box by default', () => {
+    const fire = create({ fireTex: solid(), magnitude: 0 })
+    fire.updateMatrixWorld()
+
+    const hits = throughCorner().intersectObject(fire)
+
+    expect(hits).toHaveLength(1)
+    expect(hits[0].distance).toBeCloseTo(4.5)
+  })
+
+  it('passes through the empty corners with a threshold', () => {
+    const fire = create({ fireTex: solid(), magnitude: 0 })
+    fire.raycastThreshold = 0.5
+    fire.updateMatrixWorld()
+
+    expect(throughCorner().intersectObject(fire)).toEqual([])
+  })
+
+  it('reports where the flames start, with their density', () => {
+    const fire = create({ fireTex: solid(), magnitude: 0 })
+    fire.raycastThreshold = 0.5
+    fire.updateMatrixWorld()
+
+    const hits = ray([-5, 0, 0], [1, 0, 0]).intersectObject(fire) as FireIntersection[]
+
+    expect(hits).toHaveLength(1)
+    expect(hits[0].object).toBe(fire)
+    expect(hits[0].distance).toBeCloseTo(4.5, 1)
+    expect(hits[0].point.x).toBeCloseTo(-0.5, 1)
+    expect(hits[0].density).toBeCloseTo(1)
+  })
+
+  it('follows the world transform', () => {
+    const fire = create({ fireTex: solid(), magnitude: 0 })
+    fire.raycastThreshold = 0.5
+    fire.position.set(0, 0, 10)
+    fire.scale.set(4, 2, 4)
+    fire.updateMatrixWorld()
+
+    const [hit] = ray([-10, 0, 10], [1, 0, 0]).intersectObject(fire) as FireIntersection[]
+
+    expect(hit.point.x).toBeCloseTo(-2, 1)
+    expect(hit.distance).toBeCloseTo(8, 1)
+  })
+
+  it('respects the raycaster range', () => {
+    const fire = create({ fireTex: solid(), magnitude: 0 })
+    fire.raycastThreshold = 0.5
+    fire.updateMatrixWorld()
+    const raycaster = ray([-5, 0, 0], [1, 0, 0])
+    raycaster.far = 4
+
+    expect(raycaster.intersectObject(fire)).toEqual([])
+  })
+
+  it('lets rays reach objects behind the fire', () => {
+    const fire = create({ fireTex: solid(), magnitude: 0 })
+    fire.raycastThreshold = 0.5
+    const wall = new Mesh(new BoxGeometry(1, 1, 1), new MeshBasicMaterial())
+    wall.position.y = -2
+    fire.updateMatrixWorld()
+    wall.updateMatrixWorld()
+
+    const hits = throughCorner().intersectObjects([fire, wall])
+
+    expect(hits.map((hit) => hit.object)).toEqual([wall])
+  })
+})
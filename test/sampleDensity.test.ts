@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import { DataTexture, SRGBColorSpace, Vector3, type Texture } from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import { simplexNoise, perlinNoise, turbulence, type Noise3 } from '../src/internal/noise'
+import { sampleTextureRed } from '../src/internal/textureData'
+
+/** 1x256 texture whose red channel rises linearly with v: row r holds r / 255. */
+const verticalRamp = () => {
+  const data = new Uint8Array(256 * 4)
+  for (let r = 0; r < 256; r++) data[r * 4] = r
+  const texture = new DataTexture(data, 1, 256)
+  texture.needsUpdate = true
+  return texture
+}
+
+/** What the bilinear-filtered ramp returns at v. */
+const rampAt = (v: number) => (v * 256 - 0.5) / 255
+
+/** The GLSL/TSL `samplerFire` formula, written out step by step. */
+const shaderDensity = (
+  noise: Noise3,
+  local: Vector3,
+  params: {
+    seed: number
+    time: number
+    magnitude: number
+    noiseScale: number[]
+    wind?: Vector3
+    windDrift?: Vector3
+  },
+) => {
+  const toFlame = new Vector3(2, 1, 2)
+  const wind = (params.wind ?? new Vector3()).clone().multiply(toFlame)
+  const p = new Vector3(local.x * 2, local.y + 0.5, local.z * 2)
+  p.x -= wind.x * p.y * p.y
+  p.z -= wind.z * p.y * p.y
+  const st = { x: Math.sqrt(p.x * p.x + p.z * p.z), y: p.y }
+  if (st.x <= 0 || st.x >= 1 || st.y <= 0 || st.y >= 1) return 0
+
+  const [sx, sy, sz, sw] = params.noiseScale
+  p.y -= (params.seed + params.time) * sw
+  p.sub((params.windDrift ?? new Vector3()).clone().multiply(toFlame))
+  p.multiply(new Vector3(sx, sy, sz))
+  st.y += Math.sqrt(st.y) * params.magnitude * turbulence(noise, p.x, p.y, p.z, 3, 2, 0.5)
+  if (st.y <= 0 || st.y >= 1) return 0
+
+  return rampAt(st.y)
+}
+
+describe('sampleDensity', () => {
+  const params = { seed: 3.3, time: 1.25, magnitude: 1.3, noiseScale: [1, 2, 1, 0.3] }
+  const points = [
+    new Vector3(0.1, -0.35, 0.05),
+    new Vector3(-0.2, -0.2, 0.1),
+    new Vector3(0.05, 0.0, -0.15),
+    new Vector3(0.0, -0.45, 0.3),
+  ]
+
+  it.each([
+    ['GLSL', simplexNoise, (fireTex: Texture) => new Fire({ fireTex, seed: params.seed })],
+    ['TSL', perlinNoise, (fireTex: Texture) => new FireTSL({ fireTex, seed: params.seed })],
+  ])('matches the %s shader formula', (_, noise, create) => {
+    const fire = create(verticalRamp())
+    fire.update(params.time)
+
+    for (const point of points) {
+      expect(fire.sampleDensity(point)).toBeCloseTo(shaderDensity(noise, point, params), 5)
+    }
+  })
+
+  it.each([
+    // Densities from the shader formula with the reference noise of noise.test.ts
+    [
+      'GLSL',
+      [0.4045345, 0.5817815, 0.7888308, 0.1254377],
+      (fireTex: Texture) => new Fire({ fireTex, seed: params.seed }),
+    ],
+    [
+      'TSL',
+      [0.2806307, 0.6976336, 0.919173, 0.2391349],
+      (fireTex: Texture) => new FireTSL({ fireTex, seed: params.seed }),
+    ],
+  ])('matches reference densities of the %s shader', (_, densities, create) => {
+    const fire = create(verticalRamp())
+    fire.update(params.time)
+
+    points.forEach((point, i) => {
+      expect(fire.sampleDensity(point)).toBeCloseTo(densities[i], 5)
+    })
+  })
+
+  it('leans and drifts with the wind like the shader', () => {
+    const fire = new Fire({ fireTex: verticalRamp(), seed: params.seed, wind: [0.2, 0, -0.1] })
+    fire.update(0)
+    fire.update(params.time)
+    const { wind, windDrift } = fire.material.uniforms
+    const windy = { ...params, wind: wind.value, windDrift: windDrift.value }
+
+    expect(windDrift.value.x).toBeCloseTo(0.25)
+    for (const point of points) {
+      expect(fire.sampleDensity(point)).toBeCloseTo(shaderDensity(simplexNoise, point, windy), 5)
+    }
+  })
+
+  it('reads the texture directly when there is no turbulence', () => {
+    const fire = new Fire({ fireTex: verticalRamp(), magnitude: 0 })
+    fire.update(0)
+
+    expect(fire.sampleDensity(new Vector3(0.1, 0.1, 0))).toBeCloseTo(rampAt(0.6), 5)
+  })
+
+  it('is zero outside the flame cylinder', () => {
+    const fire = new Fire({ fireTex: verticalRamp(), magnitude: 0 })
+    fire.update(0)
+
+    expect(fire.sampleDensity(new Vector3(0.45, 0, 0.45))).toBe(0)
+    expect(fire.sampleDensity(new Vector3(0, 0.6, 0))).toBe(0)
+    expect(fire.sampleDensity(new Vector3(0, 0, 0))).toBe(0)
+  })
+
+  it('maps world points through the fire transform', () => {
+    const fire = new Fire({ fireTex: verticalRamp(), magnitude: 0 })
+    fire.position.set(10, 0, -4)
+    fire.scale.set(2, 4, 2)
+    fire.update(0)
+
+    expect(fire.sampleDensity(new Vector3(10.2, 0.4, -4))).toBeCloseTo(rampAt(0.6), 5)
+  })
+
+  it('samples an explicit time like the shader would at that time', () => {
+    const a = new FireTSL({ fireTex: verticalRamp(), seed: 1 })
+    const b = new FireTSL({ fireTex: verticalRamp(), seed: 1, timeOffset: 0.5 })
+    a.update(2.5)
+    b.update(0)
+    const point = points[0]
+
+    expect(b.sampleDensity(point, 2)).toBeCloseTo(a.sampleDensity(point), 10)
+  })
+})
+
+describe('sampleTextureRed', () => {
+  it('filters bilinearly between texel centres and clamps at the edges', () => {
+    const texture = new DataTexture(new Uint8Array([0, 0, 0, 255, 255, 0, 0, 255]), 2, 1)
+
+    expect(sampleTextureRed(texture, 0.5, 0.5)).toBeCloseTo(0.5, 5)
+    expect(sampleTextureRed(texture, 0, 0.5)).toBe(0)
+    expect(sampleTextureRed(texture, 1, 0.5)).toBe(1)
+  })
+
+  it('honors flipY and decodes sRGB textures', () => {
+    const texture = new DataTexture(new Uint8Array([255, 0, 0, 255, 128, 0, 0, 255]), 1, 2)
+    expect(sampleTextureRed(texture, 0.5, 0)).toBe(1)
+
+    texture.flipY = true
+    expect(sampleTextureRed(texture, 0.5, 0)).toBeCloseTo(128 / 255, 5)
+
+    texture.colorSpace = SRGBColorSpace
+    texture.needsUpdate = true
+    expect(sampleTextureRed(texture, 0.5, 0)).toBeCloseTo(0.2158, 3)
+  })
+
+  it('is zero while the texture has no data', () => {
+    const texture = new DataTexture(null, 1, 1)
+    texture.image = null as never
+    expect(sampleTextureRed(texture, 0.5, 0.5)).toBe(0)
+  })
+})
@@ -13,23 +13,36 @@ import { Texture } from 'three'
  * React Three Fiber genuinely needs a Canvas + renderer, so we stub the handful
  * of hooks the components use.
  */
-vi.mock('@react-three/fiber', () => {
+vi.mock('@react-three/fiber', async () => {
+  const { useLayoutEffect, useRef } = await import('react')
   const registered: Record<string, unknown> = {}
+  const subscribers: { callback: (state: unknown) => void; priority: number }[] = []
   return {
     extend: (entries: Record<string, unknown>) => {
       Object.assign(registered, entries)
     },
     /** Test-only handle to inspect what was registered via extend() */
     __registered: registered,
-    useFrame: vi.fn((callback?: (state: unknown) => void) => {
-      if (typeof callback === 'function') {
-        try {
-          callback({ clock: { getElapsedTime: () => 1.0 } })
-        } catch {
-          // fireRef.current is null under the mock canvas — expected in unit tests
+    // Subscribes from a layout effect like R3F, so children subscribe before
+    // their parents, and frames run by ascending priority
+    useFrame: vi.fn((callback: (state: unknown) => void, priority = 0) => {
+      const latest = useRef(callback)
+      latest.current = callback
+      useLayoutEffect(() => {
+        const subscriber = { callback: (state: unknown) => latest.current(state), priority }
+        subscribers.push(subscriber)
+        subscribers.sort((a, b) => a.priority - b.priority)
+        return () => {
+          subscribers.splice(subscribers.indexOf(subscriber), 1)
         }
-      }
+      }, [priority])
     }),
+    /** Test-only: runs one frame of the mounted useFrame callbacks */
+    __advanceFrame: (state: object = {}) => {
+      for (const { callback } of [...subscribers]) {
+        callback({ clock: { getElapsedTime: () => 1.0 }, ...state })
+      }
+    },
     useLoader: vi.fn(() => new Texture()),
     // `ReactThreeFiber` is a types-only namespace; provide a runtime placeholder
     // so the named import resolves.
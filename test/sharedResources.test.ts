@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Texture } from 'three'
+import { Fire } from '../src/Fire'
+import { FireTSL } from '../src/tsl/FireTSL'
+import { RefCountedCache } from '../src/internal/sharedResources'
+import { createObjectUniforms } from '../src/tsl/sharedFireNodes'
+import type { FireTSLUniforms } from '../src/tsl/FireShaderTSL'
+import { backends, instancedBackends } from './backends'
+
+// White-box access to the private uniform bag
+const uniformsOf = (fire: FireTSL) => (fire as unknown as { uniforms: FireTSLUniforms }).uniforms
+
+describe('RefCountedCache', () => {
+  it('creates a value once and frees it after the last release', () => {
+    const free = vi.fn()
+    const cache = new RefCountedCache<object>(free)
+    const create = vi.fn(() => ({}))
+
+    const a = cache.acquire('key', create)
+    const b = cache.acquire('key', create)
+    expect(b).toBe(a)
+    expect(create).toHaveBeenCalledTimes(1)
+
+    cache.release('key')
+    expect(free).not.toHaveBeenCalled()
+    cache.release('key')
+    expect(free).toHaveBeenCalledWith(a)
+    expect(cache.get('key')).toBeUndefined()
+
+    cache.release('key')
+    expect(free).toHaveBeenCalledTimes(1)
+    expect(cache.acquire('key', create)).not.toBe(a)
+  })
+})
+
+describe.each(backends)('%s shared geometry', (_, create) => {
+  it('is one unit box, disposed with the last fire', () => {
+    const a = create()
+    const b = create()
+    const disposed = vi.fn()
+    a.geometry.addEventListener('dispose', disposed)
+
+    expect(b.geometry).toBe(a.geometry)
+
+    a.dispose()
+    a.dispose()
+    expect(disposed).not.toHaveBeenCalled()
+
+    b.dispose()
+    expect(disposed).toHaveBeenCalledTimes(1)
+    const next = create()
+    expect(next.geometry).not.toBe(a.geometry)
+    next.dispose()
+  })
+
+  it('still disposes each fire material', () => {
+    const fire = create()
+    const disposed = vi.fn()
+    fire.material.addEventListener('dispose', disposed)
+
+    fire.dispose()
+
+    expect(disposed).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('Fire shader program', () => {
+  // three.js keys a ShaderMaterial's program by its shader source, defines and
+  // custom cache key; materials agreeing on all three share one program
+  const programKey = (fire: Fire) => {
+    const material = fire.material
+    return [
+      material.vertexShader,
+      material.fragmentShader,
+      JSON.stringify(Object.entries(material.defines).sort()),
+      material.customProgramCacheKey(),
+    ].join('|')
+  }
+
+  it('is the same for every fire of a variant', () => {
+    const a = new Fire({ fireTex: new Texture(), color: 'red', seed: 1, magnitude: 2 })
+    const b = new Fire({ fireTex: new Texture(), color: 'blue', seed: 2, wind: [1, 0, 0] })
+
+    expect(programKey(b)).toBe(programKey(a))
+    for (const fire of [a, b]) fire.dispose()
+  })
+
+  it('differs between variants, and matches again once a fire switches back', () => {
+    const a = new Fire({ fireTex: new Texture(), iterations: 20 })
+    const b = new Fire({ fireTex: new Texture(), iterations: 12, jitter: true })
+    expect(programKey(b)).not.toBe(programKey(a))
+
+    b.iterations = 20
+    b.jitter = false
+    expect(programKey(b)).toBe(programKey(a))
+    for (const fire of [a, b]) fire.dispose()
+  })
+})
+
+describe.each(instancedBackends)('%s geometry', (_, create) => {
+  it('is its own, as it carries the instance attributes', () => {
+    const single = new Fire({ fireTex: new Texture() })
+    const fire = create()
+    const disposed = vi.fn()
+    fire.geometry.addEventListener('dispose', disposed)
+
+    expect(fire.geometry).not.toBe(single.geometry)
+    expect(single.geometry.getAttribute('instanceFireParams')).toBeUndefined()
+
+    fire.dispose()
+    expect(disposed).toHaveBeenCalledTimes(1)
+    single.dispose()
+  })
+})
+
+describe('FireTSL shared fragment node', () => {
+  const fireTex = new Texture()
+
+  it('is built once per variant and texture', () => {
+    const a = new FireTSL({ fireTex, iterations: 12 })
+    const b = new FireTSL({ fireTex, iterations: 12 })
+    const other = new FireTSL({ fireTex: new Texture(), iterations: 12 })
+
+    expect(b.material.fragmentNode).toBe(a.material.fragmentNode)
+    expect(b.material.customProgramCacheKey()).toBe(a.material.customProgramCacheKey())
+    expect(other.material.fragmentNode).not.toBe(a.material.fragmentNode)
+
+    b.iterations = 8
+    expect(b.material.fragmentNode).not.toBe(a.material.fragmentNode)
+    b.iterations = 12
+    expect(b.material.fragmentNode).toBe(a.material.fragmentNode)
+
+    for (const fire of [a, b, other]) fire.dispose()
+  })
+
+  it('is rebuilt once its last fire is gone', () => {
+    const a = new FireTSL({ fireTex, octaves: 5 })
+    const node = a.material.fragmentNode
+    a.dispose()
+
+    const next = new FireTSL({ fireTex, octaves: 5 })
+    expect(next.material.fragmentNode).not.toBe(node)
+    next.dispose()
+  })
+
+  it('reads the uniforms of the fire being drawn', () => {
+    const a = new FireTSL({ fireTex, magnitude: 1, color: 'red' })
+    const b = new FireTSL({ fireTex, magnitude: 2, color: 'blue' })
+    a.update(1)
+    b.position.set(3, 0, 0)
+    b.update(1)
+    // Graph uniforms standing in for those of the shared node
+    const shared = createObjectUniforms(uniformsOf(a)) as unknown as Record<
+      string,
+      { value: unknown; update(frame: object): void }
+    >
+
+    for (const fire of [a, b]) {
+      for (const key of ['magnitude', 'color', 'invModelMatrix', 'seed'] as const) {
+        shared[key].update({ object: fire })
+        expect(shared[key].value).toBe(uniformsOf(fire)[key].value)
+      }
+    }
+
+    a.dispose()
+    b.dispose()
+  })
+})
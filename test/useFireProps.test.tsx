@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { PerspectiveCamera, Texture } from 'three'
+import { Fire } from '../src/Fire'
+import { FireWind } from '../src/FireWind'
+import { FireWindProvider } from '../src/FireWindProvider'
+import { FireQualityManager } from '../src/FireQualityManager'
+import { useFireArgs, useFireOptions, useLiveFireProps } from '../src/internal/useFireProps'
+import type { FireOptions } from '../src/internal/AbstractFire'
+import { backends } from './backends'
+
+const live = (overrides: FireOptions = {}): FireOptions => ({
+  color: 0xeeeeee,
+  colorRamp: null,
+  blackbody: false,
+  minTemperature: 1800,
+  maxTemperature: 4000,
+  iterations: 20,
+  octaves: 3,
+  noiseScale: [1, 2, 1, 0.3],
+  magnitude: 1.3,
+  lacunarity: 2.0,
+  gain: 0.5,
+  wind: [0, 0, 0],
+  windField: null,
+  inertia: 0,
+  inertiaStiffness: 60,
+  inertiaDamping: 10,
+  flameDirection: null,
+  depthSoftness: 0.1,
+  paused: false,
+  timeScale: 1,
+  timeOffset: 0,
+  raycastThreshold: null,
+  lod: null,
+  lodHysteresis: 0.1,
+  qualityManager: null,
+  densityCutoff: null,
+  jitter: false,
+  jitterAnimated: false,
+  ...overrides,
+})
+
+describe('useFireArgs', () => {
+  const texture = new Texture()
+  const constructProps = { depthTexture: null }
+
+  it('keeps the same args while only live props change', () => {
+    const { result, rerender } = renderHook(
+      (props: FireOptions) => useFireArgs(texture, constructProps, props),
+      { initialProps: live() },
+    )
+    const first = result.current
+
+    rerender(live({ magnitude: 2.0, color: 'red', iterations: 10 }))
+
+    expect(result.current).toBe(first)
+  })
+
+  it('rebuilds args from the latest live props when the texture changes', () => {
+    const { result, rerender } = renderHook(
+      ({ tex, props }: { tex: Texture; props: FireOptions }) =>
+        useFireArgs(tex, constructProps, props),
+      { initialProps: { tex: texture, props: live() } },
+    )
+    const first = result.current
+    const next = new Texture()
+
+    rerender({ tex: texture, props: live({ magnitude: 2.0 }) })
+    rerender({ tex: next, props: live({ magnitude: 2.0 }) })
+
+    expect(result.current).not.toBe(first)
+    expect(result.current[0].fireTex).toBe(next)
+    expect(result.current[0].magnitude).toBe(2.0)
+  })
+})
+
+describe('useLiveFireProps', () => {
+  it.each(backends)('applies prop changes to the mounted %s fire in place', (_, create) => {
+    const fire = create()
+    const fireRef = { current: fire }
+    const windField = new FireWind()
+    const qualityManager = new FireQualityManager()
+    const { rerender } = renderHook((props: FireOptions) => useLiveFireProps(fireRef, props), {
+      initialProps: live(),
+    })
+
+    rerender(
+      live({
+        color: 0xff0000,
+        colorRamp: [[0, 'red']],
+        blackbody: true,
+        minTemperature: 1500,
+        maxTemperature: 6500,
+        magnitude: 2.2,
+        lacunarity: 3.0,
+        gain: 0.8,
+        wind: [0.2, 0, 0],
+        windField,
+        inertia: 0.1,
+        inertiaStiffness: 40,
+        inertiaDamping: 6,
+        flameDirection: [0, 1, 0],
+        iterations: 12,
+        octaves: 2,
+        noiseScale: [2, 3, 2, 0.5],
+        depthSoftness: 0.4,
+        paused: true,
+        timeScale: 0.5,
+        timeOffset: 2,
+        raycastThreshold: 0.2,
+        lod: [{ minScreenSize: 0, iterations: 8, octaves: 1 }],
+        lodHysteresis: 0.25,
+        qualityManager,
+        densityCutoff: 1.2,
+        jitter: true,
+        jitterAnimated: true,
+        seed: 9.1,
+      }),
+    )
+
+    expect(fire.fireColor.getHex()).toBe(0xff0000)
+    expect(fire.colorRamp).toHaveLength(1)
+    expect(fire.blackbody).toBe(true)
+    expect(fire.minTemperature).toBe(1500)
+    expect(fire.maxTemperature).toBe(6500)
+    expect(fire.magnitude).toBe(2.2)
+    expect(fire.lacunarity).toBe(3.0)
+    expect(fire.gain).toBe(0.8)
+    expect(fire.wind.toArray()).toEqual([0.2, 0, 0])
+    expect(fire.windField).toBe(windField)
+    expect(fire.inertia).toBe(0.1)
+    expect(fire.inertiaStiffness).toBe(40)
+    expect(fire.inertiaDamping).toBe(6)
+    expect(fire.flameDirection?.toArray()).toEqual([0, 1, 0])
+    expect(fire.iterations).toBe(12)
+    expect(fire.octaves).toBe(2)
+    expect(fire.noiseScale.toArray()).toEqual([2, 3, 2, 0.5])
+    expect(fire.depthSoftness).toBe(0.4)
+    expect(fire.paused).toBe(true)
+    expect(fire.timeScale).toBe(0.5)
+    expect(fire.timeOffset).toBe(2)
+    expect(fire.raycastThreshold).toBe(0.2)
+    expect(fire.lod).toEqual([{ minScreenSize: 0, iterations: 8, octaves: 1 }])
+    expect(fire.lodHysteresis).toBe(0.25)
+    expect(fire.qualityManager).toBe(qualityManager)
+    expect(fire.densityCutoff).toBe(1.2)
+    expect(fire.jitter).toBe(true)
+    expect(fire.jitterAnimated).toBe(true)
+    expect(fire.seed).toBe(9.1)
+  })
+
+  it('keeps the LOD level when re-rendered with equal levels', () => {
+    const fire = new Fire({ fireTex: new Texture() })
+    const levels = () => [
+      { minScreenSize: 0.5, iterations: 20, octaves: 3 },
+      { minScreenSize: 0, iterations: 8, octaves: 1 },
+    ]
+    const { rerender } = renderHook(
+      (props: FireOptions) => useLiveFireProps({ current: fire }, props),
+      {
+        initialProps: live({ lod: levels() }),
+      },
+    )
+    fire.update(0, new PerspectiveCamera())
+    const level = fire.lodLevel
+
+    rerender(live({ lod: levels(), magnitude: 2 }))
+
+    expect(level).not.toBe(-1)
+    expect(fire.lodLevel).toBe(level)
+  })
+
+  it('applies only the props that changed', () => {
+    const fire = new Fire({ fireTex: new Texture() })
+    const { rerender } = renderHook(
+      (props: FireOptions) => useLiveFireProps({ current: fire }, props),
+      { initialProps: live({ magnitude: 2 }) },
+    )
+    fire.magnitude = 3
+    const noiseScale = fire.noiseScale.clone()
+    fire.noiseScale.set(4, 4, 4, 4)
+
+    rerender(live({ magnitude: 2, gain: 0.7 }))
+
+    expect(fire.gain).toBe(0.7)
+    expect(fire.magnitude).toBe(3)
+    expect(fire.noiseScale.toArray()).toEqual([4, 4, 4, 4])
+    expect(noiseScale.toArray()).toEqual([1, 2, 1, 0.3])
+  })
+
+  it('resets a removed prop to its default', () => {
+    const fire = new Fire({ fireTex: new Texture() })
+    const { rerender } = renderHook(
+      (props: FireOptions) => useLiveFireProps({ current: fire }, props),
+      { initialProps: { magnitude: 2, jitter: true } as FireOptions },
+    )
+    expect(fire.magnitude).toBe(2)
+
+    rerender({})
+
+    expect(fire.magnitude).toBe(1.3)
+    expect(fire.jitter).toBe(false)
+  })
+
+  it('applies every prop to a new fire instance', () => {
+    const fireRef = { current: new Fire({ fireTex: new Texture() }) }
+    const { rerender } = renderHook((props: FireOptions) => useLiveFireProps(fireRef, props), {
+      initialProps: live({ magnitude: 2 }),
+    })
+    fireRef.current = new Fire({ fireTex: new Texture() })
+
+    rerender(live({ magnitude: 2 }))
+
+    expect(fireRef.current.magnitude).toBe(2)
+  })
+
+  it('keeps the random seed when none is given', () => {
+    const fire = new Fire({ fireTex: new Texture() })
+    const seed = fire.seed
+    renderHook(() => useLiveFireProps({ current: fire }, live()))
+    expect(fire.seed).toBe(seed)
+  })
+
+  it('does nothing before the fire is mounted', () => {
+    const fireRef = { current: null }
+    expect(() => renderHook(() => useLiveFireProps(fireRef, live({ magnitude: 2 })))).not.toThrow()
+  })
+
+  it('leaves a ref to anything but a fire alone', () => {
+    // What the fire elements render as outside a Canvas
+    const fireRef = { current: document.createElement('fire') as unknown as Fire }
+    expect(() => renderHook(() => useLiveFireProps(fireRef, live({ magnitude: 2 })))).not.toThrow()
+  })
+})
+
+describe('useFireOptions', () => {
+  it('splits the fire options from the other props', () => {
+    const { result } = renderHook(() =>
+      useFireOptions({ magnitude: 2, seed: 4, position: [1, 2, 3], name: 'torch' }),
+    )
+    const [options, rest] = result.current
+
+    expect(options).toMatchObject({ magnitude: 2, seed: 4 })
+    expect(options).not.toHaveProperty('position')
+    expect(rest).toEqual({ position: [1, 2, 3], name: 'torch' })
+  })
+
+  it('follows the wind provider unless windField is given', () => {
+    const wind = new FireWind()
+    const { result, rerender } = renderHook((props: FireOptions) => useFireOptions(props), {
+      initialProps: {},
+      wrapper: ({ children }) => <FireWindProvider wind={wind}>{children}</FireWindProvider>,
+    })
+    expect(result.current[0].windField).toBe(wind)
+
+    rerender({ windField: null })
+    expect(result.current[0].windField).toBeNull()
+  })
+})